@@ -0,0 +1,164 @@
+/**
+ * Cancellation and per-call timeouts for mcpd-proxy tool calls.
+ *
+ * The mcpd SDK takes no AbortSignal: each request gets its own controller
+ * for the SDK's request timeout. To stop the upstream tool when a client
+ * cancels, or when a call outlives its configured timeout, mcpd requests made
+ * inside {@link withAbortSignal} also abort with the call's signal, through a
+ * hook on the global fetch that leaves requests to other hosts alone.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { TimeoutError } from "@mozilla-ai/mcpd";
+import type { Config } from "./config.js";
+import { addMcpdRequestHook } from "./mcpdFetch.js";
+import { canonicalName } from "./naming.js";
+
+/** Request timeout of the mcpd SDK in milliseconds, which also caps tool calls. */
+export const MCPD_REQUEST_TIMEOUT_MS = 30_000;
+
+/** The call whose mcpd requests are in flight: its signal and the caller's. */
+const currentCall = new AsyncLocalStorage<{
+  signal: AbortSignal;
+  cancelSignal?: AbortSignal;
+}>();
+
+/**
+ * Time a tool call may take before it is aborted: its callTimeouts entry by
+ * canonical tool name (server__tool, whatever the separator, aliases and
+ * sanitization), then by server name, then callTimeoutMs.
+ *
+ * @param config - Proxy configuration
+ * @param serverName - Server owning the tool
+ * @param toolName - Tool name on that server
+ * @returns Timeout in milliseconds; 0 if the call has none
+ */
+export function callTimeoutFor(
+  config: Pick<Config, "callTimeoutMs" | "callTimeouts">,
+  serverName: string,
+  toolName: string,
+): number {
+  return (
+    config.callTimeouts?.[canonicalName(serverName, toolName)] ??
+    config.callTimeouts?.[serverName] ??
+    config.callTimeoutMs ??
+    0
+  );
+}
+
+/**
+ * Request timeout for the mcpd SDK, raised to the longest configured call
+ * timeout so the SDK does not cut those calls short.
+ *
+ * @param config - Proxy configuration
+ * @returns Timeout in milliseconds
+ */
+export function mcpdRequestTimeout(
+  config: Pick<Config, "callTimeoutMs" | "callTimeouts">,
+): number {
+  return Math.max(
+    MCPD_REQUEST_TIMEOUT_MS,
+    config.callTimeoutMs ?? 0,
+    ...Object.values(config.callTimeouts ?? {}),
+  );
+}
+
+/**
+ * Run work whose mcpd requests abort when a signal aborts or a timeout
+ * elapses, whichever comes first.
+ *
+ * @param signal - Aborts the work, e.g. when the client cancels the request
+ * @param timeoutMs - Time the work may take; 0 disables the timeout
+ * @param operation - Operation named in the timeout error
+ * @param fn - Work to run
+ * @returns Result of the work
+ * @throws {TimeoutError} If the timeout elapsed before the work finished
+ */
+export async function withAbortSignal<T>(
+  signal: AbortSignal | undefined,
+  timeoutMs: number,
+  operation: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (signal?.aborted) {
+    abort();
+  }
+  signal?.addEventListener("abort", abort, { once: true });
+
+  let timedOut = false;
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          abort();
+        }, timeoutMs)
+      : undefined;
+
+  try {
+    return await currentCall.run(
+      { signal: controller.signal, cancelSignal: signal },
+      fn,
+    );
+  } catch (error) {
+    if (timedOut) {
+      throw new TimeoutError(
+        `${operation} timed out after ${timeoutMs}ms`,
+        operation,
+        timeoutMs,
+        error instanceof Error ? error : undefined,
+      );
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+}
+
+/**
+ * Whether the caller of the surrounding {@link withAbortSignal} aborted it,
+ * as opposed to its timeout elapsing. Aborted mcpd requests fail with the
+ * same TimeoutError either way.
+ */
+export function isCallCancelled(): boolean {
+  return currentCall.getStore()?.cancelSignal?.aborted ?? false;
+}
+
+/**
+ * Make fetch abort requests to mcpd with the signal of the surrounding
+ * {@link withAbortSignal}, on top of their own signal.
+ *
+ * The mcpd SDK takes no signal, so this hooks the global fetch (see
+ * mcpdFetch.ts). Only requests to the mcpd address made inside a call are
+ * changed; anything else passes through as is. The request then fails like
+ * one that hit the SDK's own timeout, so the SDK reports a TimeoutError;
+ * {@link withAbortSignal} and its caller tell the two cases apart by their
+ * own signals.
+ *
+ * @param baseUrl - mcpd address
+ * @param currentSignal - Returns the signal to abort with (default: the call's)
+ * @param target - Object owning fetch (default: globalThis)
+ * @returns Function that removes the hook
+ */
+export function propagateAbortSignal(
+  baseUrl: string,
+  currentSignal: () => AbortSignal | undefined = () =>
+    currentCall.getStore()?.signal,
+  target?: { fetch: typeof fetch },
+): () => void {
+  return addMcpdRequestHook(
+    baseUrl,
+    (input, init) => {
+      const signal = currentSignal();
+      if (!signal) {
+        return undefined;
+      }
+      const own =
+        init?.signal ?? (input instanceof Request ? input.signal : null);
+      return { ...init, signal: own ? AbortSignal.any([own, signal]) : signal };
+    },
+    target,
+  );
+}
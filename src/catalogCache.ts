@@ -0,0 +1,216 @@
+/**
+ * Stale-while-revalidate caching of aggregated catalogs for mcpd-proxy.
+ *
+ * Aggregating a catalog queries every healthy server, so one slow upstream
+ * delays the whole list response. The cache serves the last known catalog
+ * immediately and refreshes it in the background once it is older than its
+ * TTL. Only the very first request (or the first after an invalidation)
+ * waits for mcpd.
+ */
+
+/**
+ * Catalog kinds with their own cache and TTL.
+ */
+export type CatalogCacheKind =
+  "tools" | "prompts" | "resources" | "resourceTemplates";
+
+/** Every cached catalog kind. */
+export const CATALOG_CACHE_KINDS: readonly CatalogCacheKind[] = [
+  "tools",
+  "prompts",
+  "resources",
+  "resourceTemplates",
+];
+
+/** Default time in milliseconds before a cached catalog is refreshed. */
+export const DEFAULT_CATALOG_TTL_MS = 10_000;
+
+/**
+ * How a request for a catalog was served: from a fresh entry, from a stale
+ * entry while it is refreshed, or by waiting for mcpd.
+ */
+export type CatalogCacheResult = "hit" | "stale_hit" | "miss";
+
+/**
+ * Counters and staleness of one cache.
+ */
+export interface CatalogCacheMetrics {
+  /** Requests served from a fresh entry. */
+  hits: number;
+
+  /** Requests served from a stale entry while it was refreshed. */
+  staleHits: number;
+
+  /** Requests that had to wait for mcpd (no entry yet, or an expired one being revalidated). */
+  misses: number;
+
+  /** Completed loads from mcpd, including background refreshes. */
+  refreshes: number;
+
+  /** Loads from mcpd that failed. */
+  refreshFailures: number;
+
+  /** Age of the cached entry in milliseconds; undefined when empty. */
+  ageMs?: number;
+}
+
+/**
+ * Options for {@link CatalogCache}.
+ */
+export interface CatalogCacheOptions<T> {
+  /** Age in milliseconds after which the entry is refreshed; 0 disables caching. */
+  ttlMs: number;
+
+  /** Loads the catalog from mcpd. */
+  load: () => Promise<T>;
+
+  /** Called for every request, e.g. to export the counts as metrics. */
+  onRequest?: (result: CatalogCacheResult) => void;
+
+  /** Clock, for tests (default: Date.now). */
+  now?: () => number;
+}
+
+/**
+ * A single cached catalog.
+ *
+ * Concurrent loads are shared. A failed background refresh keeps the stale
+ * entry, which is retried on the next request; a failed load without an
+ * entry is reported to the caller.
+ */
+export class CatalogCache<T> {
+  readonly #options: CatalogCacheOptions<T>;
+  readonly #now: () => number;
+  #entry?: { value: T; loadedAt: number };
+  #pending?: Promise<T>;
+  #generation = 0;
+  #metrics = {
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    refreshes: 0,
+    refreshFailures: 0,
+  };
+
+  constructor(options: CatalogCacheOptions<T>) {
+    this.#options = options;
+    this.#now = options.now ?? Date.now;
+  }
+
+  /**
+   * Get the catalog, serving a stale entry while it is refreshed.
+   *
+   * @returns The cached or freshly loaded catalog
+   * @throws Error if there is no entry and loading fails
+   */
+  async get(): Promise<T> {
+    const entry = this.#entry;
+    if (!entry || this.#options.ttlMs === 0) {
+      this.#count("miss");
+      return this.refresh();
+    }
+
+    if (this.#now() - entry.loadedAt < this.#options.ttlMs) {
+      this.#count("hit");
+      return entry.value;
+    }
+
+    this.#count("stale_hit");
+    this.refresh().catch(() => {
+      // Keep serving the stale entry; the next request retries.
+    });
+    return entry.value;
+  }
+
+  /**
+   * Get the catalog, waiting for a reload if the entry is older than its TTL
+   * instead of serving it stale. For callers that cannot use a stale answer,
+   * e.g. to look up a name missing from it, without loading more than once
+   * per TTL.
+   *
+   * @returns The cached or freshly loaded catalog
+   * @throws Error if the entry has expired and loading fails
+   */
+  async revalidate(): Promise<T> {
+    const entry = this.#entry;
+    if (
+      entry &&
+      this.#options.ttlMs > 0 &&
+      this.#now() - entry.loadedAt < this.#options.ttlMs
+    ) {
+      this.#count("hit");
+      return entry.value;
+    }
+
+    this.#count("miss");
+    return this.refresh();
+  }
+
+  /**
+   * Load the catalog from mcpd now and store it, sharing a load already in
+   * flight.
+   *
+   * @returns The freshly loaded catalog
+   * @throws Error if loading fails
+   */
+  refresh(): Promise<T> {
+    if (this.#pending) {
+      return this.#pending;
+    }
+
+    const generation = this.#generation;
+    const pending = this.#options
+      .load()
+      .then(
+        (value) => {
+          this.#metrics.refreshes++;
+          // Don't resurrect an entry invalidated during the load.
+          if (generation === this.#generation) {
+            this.#entry = { value, loadedAt: this.#now() };
+          }
+          return value;
+        },
+        (error: unknown) => {
+          this.#metrics.refreshFailures++;
+          throw error;
+        },
+      )
+      .finally(() => {
+        if (this.#pending === pending) {
+          this.#pending = undefined;
+        }
+      });
+    this.#pending = pending;
+    return pending;
+  }
+
+  /**
+   * Drop the cached entry so the next request loads from mcpd, e.g. once
+   * mcpd reports that an item in it no longer exists.
+   */
+  invalidate(): void {
+    this.#generation++;
+    this.#entry = undefined;
+    this.#pending = undefined;
+  }
+
+  /**
+   * Current counters and entry age.
+   */
+  get metrics(): CatalogCacheMetrics {
+    return {
+      ...this.#metrics,
+      ageMs: this.#entry ? this.#now() - this.#entry.loadedAt : undefined,
+    };
+  }
+
+  #count(result: CatalogCacheResult): void {
+    const counters = {
+      hit: "hits",
+      stale_hit: "staleHits",
+      miss: "misses",
+    } as const;
+    this.#metrics[counters[result]]++;
+    this.#options.onRequest?.(result);
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Per-server circuit breakers for mcpd-proxy.
+ *
+ * When an upstream server flaps, every call to it waits for a
+ * ServerUnhealthyError or a timeout. After enough consecutive failures the
+ * server's circuit opens: calls to it fail fast and it is left out of the
+ * aggregated catalogs. After a cooldown the circuit half-opens and lets one
+ * call through as a probe, which closes the circuit if it succeeds and opens
+ * it again if it fails.
+ */
+
+import {
+  ConnectionError,
+  ServerUnhealthyError,
+  TimeoutError,
+} from "@mozilla-ai/mcpd";
+import { logger } from "./logger.js";
+
+/** Default number of consecutive failures that opens a circuit. */
+export const DEFAULT_CIRCUIT_BREAKER_THRESHOLD = 5;
+
+/** Default time in milliseconds an open circuit waits before a probe. */
+export const DEFAULT_CIRCUIT_BREAKER_COOLDOWN_MS = 30_000;
+
+/** State of a server's circuit. */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Error for calls rejected because the server's circuit is open. It is a
+ * ServerUnhealthyError, so callers report it as the server being unavailable.
+ */
+export class CircuitOpenError extends ServerUnhealthyError {
+  constructor(serverName: string) {
+    super(
+      `Server '${serverName}' is temporarily unavailable after repeated failures`,
+      serverName,
+      "circuit_open",
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * A server whose circuit is not closed, or that has failed recently.
+ */
+export interface CircuitStatus {
+  /** Server name. */
+  server: string;
+
+  /** Current state. */
+  state: CircuitState;
+
+  /** Consecutive failures so far. */
+  failures: number;
+
+  /** When the circuit last opened (ISO 8601), if it has. */
+  openedAt?: string;
+
+  /** Class of the latest failure, e.g. ServerUnhealthyError. */
+  errorType?: string;
+
+  /** Message of the latest failure. */
+  message?: string;
+}
+
+/**
+ * Options for {@link CircuitBreakers}.
+ */
+export interface CircuitBreakersOptions {
+  /** Consecutive failures that open a circuit; 0 disables the breakers. */
+  threshold: number;
+
+  /** Time in milliseconds an open circuit waits before letting a probe through. */
+  cooldownMs: number;
+
+  /** Clock in milliseconds, for tests (default: Date.now). */
+  now?: () => number;
+}
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  probing: boolean;
+  lastError?: unknown;
+}
+
+/**
+ * Whether an error counts against a server's circuit. Only signs that the
+ * server itself is unhealthy or too slow count; errors the server returned
+ * (e.g. ToolExecutionError) show it is answering, and a ConnectionError means
+ * mcpd, not the server, is unreachable.
+ *
+ * @param error - Error of a call to the server
+ * @returns True if the error is a server failure
+ */
+export function isServerFailure(error: unknown): boolean {
+  return (
+    (error instanceof ServerUnhealthyError &&
+      !(error instanceof CircuitOpenError)) ||
+    error instanceof TimeoutError
+  );
+}
+
+/**
+ * Tracks one circuit per upstream server.
+ */
+export class CircuitBreakers {
+  readonly #options: CircuitBreakersOptions;
+  readonly #now: () => number;
+  readonly #circuits = new Map<string, Circuit>();
+
+  constructor(options: CircuitBreakersOptions) {
+    this.#options = options;
+    this.#now = options.now ?? Date.now;
+  }
+
+  /**
+   * Whether the breakers are enabled.
+   */
+  get enabled(): boolean {
+    return this.#options.threshold > 0;
+  }
+
+  #circuit(server: string): Circuit {
+    let circuit = this.#circuits.get(server);
+    if (!circuit) {
+      circuit = { state: "closed", failures: 0, openedAt: 0, probing: false };
+      this.#circuits.set(server, circuit);
+    }
+    return circuit;
+  }
+
+  #cooledDown(circuit: Circuit): boolean {
+    return this.#now() - circuit.openedAt >= this.#options.cooldownMs;
+  }
+
+  /**
+   * Whether a server is left out of aggregation: its circuit is open and
+   * still cooling down. Once the cooldown is over the server is listed again,
+   * so the listing itself can probe it.
+   *
+   * @param server - Server name
+   * @returns True while the server's circuit is open
+   */
+  isOpen(server: string): boolean {
+    const circuit = this.#circuits.get(server);
+    return circuit?.state === "open" && !this.#cooledDown(circuit);
+  }
+
+  /**
+   * Servers left out of aggregation because their circuit is open.
+   *
+   * @returns Names of servers whose circuit is open and cooling down
+   */
+  openServers(): string[] {
+    return [...this.#circuits.keys()].filter((server) => this.isOpen(server));
+  }
+
+  /**
+   * Admit a call to a server. An open circuit that has cooled down becomes
+   * half-open and admits one probe; other calls are rejected until the probe
+   * settles.
+   *
+   * @param server - Server name
+   * @throws {CircuitOpenError} If the call is rejected
+   */
+  admit(server: string): void {
+    const circuit = this.#circuits.get(server);
+    if (!this.enabled || !circuit || circuit.state === "closed") {
+      return;
+    }
+
+    if (circuit.state === "open" && this.#cooledDown(circuit)) {
+      circuit.state = "half-open";
+      logger.info(`Circuit for server '${server}' half-open, probing`, {
+        server,
+      });
+    }
+    if (circuit.state === "open" || circuit.probing) {
+      throw new CircuitOpenError(server);
+    }
+    circuit.probing = true;
+  }
+
+  /**
+   * Record how an admitted call ended. Server failures count towards opening
+   * the circuit, and a failed probe reopens it; any other error shows the
+   * server answered, like a success. Cancelled calls prove nothing either
+   * way and should be recorded with {@link release} instead.
+   *
+   * @param server - Server name
+   * @param error - Error of the call, or undefined if it succeeded
+   */
+  record(server: string, error?: unknown): void {
+    if (!this.enabled) {
+      return;
+    }
+    if (error instanceof ConnectionError) {
+      this.release(server);
+      return;
+    }
+
+    if (!isServerFailure(error)) {
+      const state = this.#circuits.get(server)?.state;
+      if (state && state !== "closed") {
+        logger.info(`Circuit for server '${server}' closed`, { server });
+      }
+      this.#circuits.delete(server);
+      return;
+    }
+
+    const circuit = this.#circuit(server);
+    circuit.probing = false;
+    circuit.failures++;
+    circuit.lastError = error;
+    if (
+      circuit.state === "half-open" ||
+      (circuit.state === "closed" &&
+        circuit.failures >= this.#options.threshold)
+    ) {
+      circuit.state = "open";
+      circuit.openedAt = this.#now();
+      logger.warning(
+        `Circuit for server '${server}' opened after ${circuit.failures} ` +
+          `consecutive failures; probing again in ${this.#options.cooldownMs}ms`,
+        { server, failures: circuit.failures, error },
+      );
+    }
+  }
+
+  /**
+   * End an admitted call without a verdict, so a half-open circuit admits
+   * another probe.
+   *
+   * @param server - Server name
+   */
+  release(server: string): void {
+    const circuit = this.#circuits.get(server);
+    if (circuit) {
+      circuit.probing = false;
+    }
+  }
+
+  /**
+   * Servers with an open or half-open circuit, or with failures towards
+   * opening one.
+   *
+   * @returns Status of each such server
+   */
+  circuits(): CircuitStatus[] {
+    return [...this.#circuits].map(([server, circuit]) => {
+      const error = circuit.lastError;
+      return {
+        server,
+        state:
+          circuit.state === "open" && this.#cooledDown(circuit)
+            ? "half-open"
+            : circuit.state,
+        failures: circuit.failures,
+        ...(circuit.state !== "closed" && {
+          openedAt: new Date(circuit.openedAt).toISOString(),
+        }),
+        ...(error instanceof Error && {
+          errorType: error.name,
+          message: error.message,
+        }),
+      };
+    });
+  }
+}
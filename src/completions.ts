@@ -0,0 +1,101 @@
+/**
+ * Argument completion for mcpd-proxy.
+ *
+ * completion/complete requests name a namespaced prompt or a resource
+ * template. The mcpd SDK cannot forward them to the owning server, so the
+ * proxy answers locally with enum values from the argument's JSON Schema in
+ * the cached prompt catalog.
+ */
+
+import type { CompleteResult } from "@modelcontextprotocol/sdk/types.js";
+
+/** Maximum number of values in one completion result (per the MCP spec). */
+export const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * Completion values with paging hints, as returned to the client.
+ */
+export type Completion = CompleteResult["completion"];
+
+/**
+ * Collect the enumerated values a JSON Schema allows.
+ *
+ * Reads `enum`, `const` and the branches of `anyOf`/`oneOf`. Only string,
+ * number and boolean values are returned, as strings.
+ *
+ * @param schema - JSON Schema for one argument
+ * @returns Allowed values, or an empty array if the schema has none
+ */
+export function enumValues(schema: unknown): string[] {
+  if (typeof schema !== "object" || schema === null) {
+    return [];
+  }
+
+  const {
+    enum: values,
+    const: constant,
+    anyOf,
+    oneOf,
+  } = schema as Record<string, unknown>;
+  const found: unknown[] = [
+    ...(Array.isArray(values) ? values : []),
+    ...(constant !== undefined ? [constant] : []),
+    ...[anyOf, oneOf].flatMap((branches) =>
+      Array.isArray(branches) ? branches.flatMap(enumValues) : [],
+    ),
+  ];
+
+  return [
+    ...new Set(
+      found
+        .filter((value) =>
+          ["string", "number", "boolean"].includes(typeof value),
+        )
+        .map(String),
+    ),
+  ];
+}
+
+/**
+ * Find the JSON Schema for a prompt argument.
+ *
+ * MCP prompt arguments have no schema field, but some servers attach one as
+ * `schema` or put `enum` directly on the argument; both are accepted.
+ *
+ * @param argument - Prompt argument definition from mcpd
+ * @returns Schema-like object to read enum values from
+ */
+export function promptArgumentSchema(argument: unknown): unknown {
+  if (typeof argument !== "object" || argument === null) {
+    return undefined;
+  }
+  const { schema } = argument as { schema?: unknown };
+  return schema ?? argument;
+}
+
+/**
+ * Filter candidate values by the text the user has typed so far.
+ *
+ * Matching is a case-insensitive prefix match. Results are capped at
+ * {@link MAX_COMPLETION_VALUES}, with `total` and `hasMore` describing the
+ * full match set.
+ *
+ * @param values - Candidate values
+ * @param typed - Current argument value
+ * @returns Completion for the client
+ */
+export function completeFromValues(
+  values: string[],
+  typed: string,
+): Completion {
+  const needle = typed.toLowerCase();
+  const matches = values.filter((value) =>
+    value.toLowerCase().startsWith(needle),
+  );
+
+  return {
+    values: matches.slice(0, MAX_COMPLETION_VALUES),
+    total: matches.length,
+    hasMore: matches.length > MAX_COMPLETION_VALUES,
+  };
+}
@@ -1,7 +1,54 @@
 /**
  * Configuration management for mcpd-proxy.
- * Loads configuration from environment variables.
+ *
+ * Configuration is layered, each layer overriding the previous one:
+ * defaults < config file (JSON or TOML) < environment variables < CLI flags.
+ * Every layer is validated and all problems are reported together.
+ */
+
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parseArgs } from "node:util";
+import { parse as parseToml } from "smol-toml";
+import { DEFAULT_MAX_NAME_LENGTH, MIN_MAX_NAME_LENGTH } from "./naming.js";
+import {
+  CATALOG_CACHE_KINDS,
+  DEFAULT_CATALOG_TTL_MS,
+  type CatalogCacheKind,
+} from "./catalogCache.js";
+import {
+  DEFAULT_CIRCUIT_BREAKER_COOLDOWN_MS,
+  DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+} from "./circuitBreaker.js";
+import { DEFAULT_SERVER_TIMEOUT_MS } from "./fanout.js";
+import { DEFAULT_SESSION_IDLE_MS } from "./http.js";
+import {
+  DEFAULT_LOG_LEVEL,
+  LOG_FORMATS,
+  LOG_LEVELS,
+  type LogFormat,
+  type LogLevel,
+} from "./logger.js";
+import { DEFAULT_PAGE_SIZE } from "./pagination.js";
+import { DEFAULT_PROGRESS_INTERVAL_MS } from "./progress.js";
+import {
+  DEFAULT_RETRIES,
+  DEFAULT_RETRY_BASE_DELAY_MS,
+  DEFAULT_RETRY_MAX_DELAY_MS,
+} from "./retry.js";
+import { DEFAULT_SUBSCRIPTION_INTERVAL_MS } from "./subscriptions.js";
+import { DEFAULT_WATCH_INTERVAL_MS } from "./watcher.js";
+
+/**
+ * Transport used to expose the MCP server to clients.
  */
+export type TransportType = "stdio" | "http";
+
+/**
+ * Built-in tool profile: "all" exposes every tool, "read-only" hides tools
+ * that may be destructive (any not annotated read-only or non-destructive).
+ */
+export type ToolProfile = "all" | "read-only";
 
 /**
  * Configuration interface for mcpd-proxy.
@@ -12,20 +59,771 @@ export interface Config {
 
   /** Optional API key for mcpd authentication. */
   mcpdApiKey?: string;
+
+  /** Transport used to serve MCP clients (default: stdio). */
+  transport?: TransportType;
+
+  /** Host interface the HTTP transport binds to. */
+  httpHost?: string;
+
+  /** Port the HTTP transport listens on. */
+  httpPort?: number;
+
+  /** Host names HTTP clients may use in Host and Origin headers besides httpHost and localhost. */
+  httpAllowedHosts?: string[];
+
+  /** Time in milliseconds an HTTP session may go without requests before it is closed; 0 disables (default: 1800000). */
+  httpSessionIdleMs?: number;
+
+  /** Glob patterns of servers to expose (default: all servers). */
+  includeServers?: string[];
+
+  /** Glob patterns of servers to hide, applied after includeServers. */
+  excludeServers?: string[];
+
+  /** Glob patterns of namespaced tools (server__tool) to expose. */
+  includeTools?: string[];
+
+  /** Glob patterns of namespaced tools (server__tool) to hide. */
+  excludeTools?: string[];
+
+  /** Built-in tool profile (default: all). */
+  toolProfile?: ToolProfile;
+
+  /** Separator between server and item in namespaced names (default: "__"). */
+  separator?: string;
+
+  /** Per-server name prefixes replacing "server + separator" (e.g., github: "gh_"). */
+  serverAliases?: Record<string, string>;
+
+  /** Rewrite tool names to [a-zA-Z0-9_-] within maxToolNameLength (default: true). */
+  sanitizeToolNames?: boolean;
+
+  /** Maximum exposed tool name length when sanitizing (default: 64). */
+  maxToolNameLength?: number;
+
+  /** Interval between catalog change polls in milliseconds; 0 disables (default: 30000). */
+  watchIntervalMs?: number;
+
+  /** Interval between subscribed resource polls in milliseconds; 0 disables (default: 5000). */
+  subscriptionIntervalMs?: number;
+
+  /** Maximum number of items per list page (default: 100). */
+  pageSize?: number;
+
+  /** Per-kind catalog cache TTLs in milliseconds; 0 disables caching (default: 10000 each). */
+  catalogTtlMs?: Partial<Record<CatalogCacheKind, number>>;
+
+  /** Time in milliseconds each server has to answer a list request; 0 waits indefinitely (default: 5000). */
+  serverTimeoutMs?: number;
+
+  /** Per-server overrides of serverTimeoutMs (e.g., github: 10000). */
+  serverTimeouts?: Record<string, number>;
+
+  /** Time in milliseconds a tool call may take before it is aborted; 0 waits for mcpd (default: 0). */
+  callTimeoutMs?: number;
+
+  /** Overrides of callTimeoutMs by server or namespaced tool name (e.g., github: 60000, github__search: 5000). */
+  callTimeouts?: Record<string, number>;
+
+  /** Interval between heartbeat progress notifications during tool calls in milliseconds; 0 disables (default: 10000). */
+  progressIntervalMs?: number;
+
+  /** Retries of idempotent mcpd calls that fail to reach mcpd; 0 disables (default: 2). */
+  retries?: number;
+
+  /** Delay before the first retry in milliseconds, doubled for each retry after it (default: 200). */
+  retryBaseDelayMs?: number;
+
+  /** Cap on the delay between retries in milliseconds (default: 2000). */
+  retryMaxDelayMs?: number;
+
+  /** Consecutive failures of a server that open its circuit; 0 disables circuit breakers (default: 5). */
+  circuitBreakerThreshold?: number;
+
+  /** Time in milliseconds an open circuit waits before letting a probe call through (default: 30000). */
+  circuitBreakerCooldownMs?: number;
+
+  /** Minimum level of log messages written to stderr and, until a client sets its own, sent to clients (default: info). */
+  logLevel?: LogLevel;
+
+  /** stderr log format: text or json lines (default: text). */
+  logFormat?: LogFormat;
+
+  /** OTLP/HTTP traces endpoint spans are exported to (e.g., http://localhost:4318/v1/traces). */
+  otlpEndpoint?: string;
+
+  /** File spans are appended to as OTLP/JSON lines. */
+  traceFile?: string;
+
+  /** Host interface the metrics listener binds to. */
+  metricsHost?: string;
+
+  /** Port of the Prometheus metrics listener; unset disables it. */
+  metricsPort?: number;
 }
 
 /**
- * Load configuration from environment variables.
+ * Error thrown when configuration is invalid.
+ * Lists every invalid field rather than stopping at the first one.
+ */
+export class ConfigError extends Error {
+  /** One entry per problem, prefixed with where the value came from. */
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(
+      `Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`,
+    );
+    this.name = "ConfigError";
+    this.issues = issues;
+  }
+}
+
+/** Default host for the HTTP transport (loopback only). */
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+
+/** Default port for the HTTP transport. */
+export const DEFAULT_HTTP_PORT = 8091;
+
+/** Environment variable naming the config file. */
+export const CONFIG_FILE_ENV = "MCPD_PROXY_CONFIG";
+
+/**
+ * Default configuration, the lowest-precedence layer.
+ */
+export const DEFAULT_CONFIG: Config = {
+  mcpdAddr: "http://localhost:8090",
+  transport: "stdio",
+  httpHost: DEFAULT_HTTP_HOST,
+  httpPort: DEFAULT_HTTP_PORT,
+  httpSessionIdleMs: DEFAULT_SESSION_IDLE_MS,
+  toolProfile: "all",
+  sanitizeToolNames: true,
+  maxToolNameLength: DEFAULT_MAX_NAME_LENGTH,
+  watchIntervalMs: DEFAULT_WATCH_INTERVAL_MS,
+  subscriptionIntervalMs: DEFAULT_SUBSCRIPTION_INTERVAL_MS,
+  pageSize: DEFAULT_PAGE_SIZE,
+  catalogTtlMs: Object.fromEntries(
+    CATALOG_CACHE_KINDS.map((kind) => [kind, DEFAULT_CATALOG_TTL_MS]),
+  ),
+  serverTimeoutMs: DEFAULT_SERVER_TIMEOUT_MS,
+  progressIntervalMs: DEFAULT_PROGRESS_INTERVAL_MS,
+  retries: DEFAULT_RETRIES,
+  retryBaseDelayMs: DEFAULT_RETRY_BASE_DELAY_MS,
+  retryMaxDelayMs: DEFAULT_RETRY_MAX_DELAY_MS,
+  circuitBreakerThreshold: DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+  circuitBreakerCooldownMs: DEFAULT_CIRCUIT_BREAKER_COOLDOWN_MS,
+  logLevel: DEFAULT_LOG_LEVEL,
+  logFormat: "text",
+  metricsHost: DEFAULT_HTTP_HOST,
+};
+
+/**
+ * Describes how a config field is validated and where it can be set from.
+ */
+interface FieldSpec {
+  /** Environment variable that sets this field. */
+  env?: string;
+
+  /** CLI flag (without leading dashes) that sets this field. */
+  flag?: string;
+
+  /** Treat an empty environment variable as unset rather than invalid. */
+  emptyEnvIsUnset?: boolean;
+
+  /** Convert a raw string from the environment or CLI to the field's type. */
+  fromString?: (value: string) => unknown;
+
+  /** Return why the value is invalid, or undefined if it is valid. */
+  validate: (value: unknown) => string | undefined;
+}
+
+/** Render a value for inclusion in an issue message. */
+function formatValue(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+/** Validators return why a value is invalid, or undefined if it is valid. */
+function validateString(value: unknown): string | undefined {
+  return typeof value === "string"
+    ? undefined
+    : `expected a string, got ${formatValue(value)}`;
+}
+
+function validateNonEmptyString(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0
+    ? undefined
+    : `expected a non-empty string, got ${formatValue(value)}`;
+}
+
+function validateHttpUrl(value: unknown): string | undefined {
+  if (typeof value === "string" && URL.canParse(value)) {
+    const { protocol } = new URL(value);
+    if (protocol === "http:" || protocol === "https:") {
+      return undefined;
+    }
+  }
+  return `expected an http(s) URL, got ${formatValue(value)}`;
+}
+
+function validateOneOf(allowed: readonly string[]) {
+  return (value: unknown): string | undefined =>
+    typeof value === "string" && allowed.includes(value)
+      ? undefined
+      : `expected one of ${allowed.join(", ")}, got ${formatValue(value)}`;
+}
+
+function validatePort(value: unknown): string | undefined {
+  return typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= 65535
+    ? undefined
+    : `expected an integer between 0 and 65535, got ${formatValue(value)}`;
+}
+
+function validateBoolean(value: unknown): string | undefined {
+  return typeof value === "boolean"
+    ? undefined
+    : `expected true or false, got ${formatValue(value)}`;
+}
+
+function validateIntegerAtLeast(min: number) {
+  return (value: unknown): string | undefined =>
+    typeof value === "number" && Number.isInteger(value) && value >= min
+      ? undefined
+      : `expected an integer of at least ${min}, got ${formatValue(value)}`;
+}
+
+function validateStringList(value: unknown): string | undefined {
+  return Array.isArray(value) &&
+    value.every((item) => typeof item === "string" && item.length > 0)
+    ? undefined
+    : `expected a list of non-empty strings, got ${formatValue(value)}`;
+}
+
+function validateCatalogTtls(value: unknown): string | undefined {
+  return typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.entries(value).every(
+      ([kind, ttl]) =>
+        (CATALOG_CACHE_KINDS as readonly string[]).includes(kind) &&
+        typeof ttl === "number" &&
+        Number.isInteger(ttl) &&
+        ttl >= 0,
+    )
+    ? undefined
+    : `expected a map of ${CATALOG_CACHE_KINDS.join(", ")} to integers of at least 0, got ${formatValue(value)}`;
+}
+
+function validateIntegerRecord(value: unknown): string | undefined {
+  return typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every(
+      (item) => typeof item === "number" && Number.isInteger(item) && item >= 0,
+    )
+    ? undefined
+    : `expected a map of names to integers of at least 0, got ${formatValue(value)}`;
+}
+
+function validateStringRecord(value: unknown): string | undefined {
+  return typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every(
+      (item) => typeof item === "string" && item.length > 0,
+    )
+    ? undefined
+    : `expected a map of names to non-empty strings, got ${formatValue(value)}`;
+}
+
+/**
+ * Split a comma-separated string into a list, dropping empty entries.
+ */
+function listFromString(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Parse comma-separated "key=value" pairs into a record. Entries without "="
+ * are kept as a non-string value so validation reports them.
+ */
+function recordFromString(value: string): unknown {
+  const record: Record<string, unknown> = {};
+  for (const entry of listFromString(value)) {
+    const index = entry.indexOf("=");
+    if (index <= 0) {
+      return value;
+    }
+    record[entry.slice(0, index).trim()] = entry.slice(index + 1).trim();
+  }
+  return record;
+}
+
+/**
+ * Parse comma-separated "key=number" pairs into a record, leaving values
+ * that are not numeric as-is so validation can report them.
+ */
+function numberRecordFromString(value: string): unknown {
+  const record = recordFromString(value);
+  return typeof record === "object" && record !== null
+    ? Object.fromEntries(
+        Object.entries(record).map(([key, item]) => [
+          key,
+          numberFromString(item as string),
+        ]),
+      )
+    : record;
+}
+
+/**
+ * Convert "true"/"false" to a boolean, leaving other strings as-is
+ * so validation can report the original value.
+ */
+function booleanFromString(value: string): unknown {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "true") return true;
+  if (normalized === "false") return false;
+  return value;
+}
+
+/**
+ * Convert a string to a number, leaving it as-is when it is not numeric
+ * so validation can report the original value.
+ */
+function numberFromString(value: string): unknown {
+  const parsed = Number(value);
+  return value.trim() !== "" && !Number.isNaN(parsed) ? parsed : value;
+}
+
+/**
+ * Every supported config field. Keys double as config file field names.
+ */
+const FIELDS: { [K in keyof Config]-?: FieldSpec } = {
+  mcpdAddr: {
+    env: "MCPD_ADDR",
+    flag: "mcpd-addr",
+    // Launchers often pass MCPD_ADDR="" to mean "use the default".
+    emptyEnvIsUnset: true,
+    validate: validateHttpUrl,
+  },
+  mcpdApiKey: { env: "MCPD_API_KEY", validate: validateString },
+  transport: {
+    env: "MCPD_PROXY_TRANSPORT",
+    flag: "transport",
+    validate: validateOneOf(["stdio", "http"]),
+  },
+  httpHost: {
+    env: "MCPD_PROXY_HOST",
+    flag: "host",
+    validate: validateNonEmptyString,
+  },
+  httpPort: {
+    env: "MCPD_PROXY_PORT",
+    flag: "port",
+    fromString: numberFromString,
+    validate: validatePort,
+  },
+  httpAllowedHosts: {
+    env: "MCPD_PROXY_ALLOWED_HOSTS",
+    flag: "allowed-hosts",
+    fromString: listFromString,
+    validate: validateStringList,
+  },
+  httpSessionIdleMs: {
+    env: "MCPD_PROXY_SESSION_IDLE_MS",
+    flag: "session-idle-ms",
+    fromString: numberFromString,
+    validate: validateIntegerAtLeast(0),
+  },
+  includeServers: {
+    env: "MCPD_PROXY_INCLUDE_SERVERS",
+    flag: "include-servers",
+    fromString: listFromString,
+    validate: validateStringList,
+  },
+  excludeServers: {
+    env: "MCPD_PROXY_EXCLUDE_SERVERS",
+    flag: "exclude-servers",
+    fromString: listFromString,
+    validate: validateStringList,
+  },
+  includeTools: {
+    env: "MCPD_PROXY_INCLUDE_TOOLS",
+    flag: "include-tools",
+    fromString: listFromString,
+    validate: validateStringList,
+  },
+  excludeTools: {
+    env: "MCPD_PROXY_EXCLUDE_TOOLS",
+    flag: "exclude-tools",
+    fromString: listFromString,
+    validate: validateStringList,
+  },
+  toolProfile: {
+    env: "MCPD_PROXY_TOOL_PROFILE",
+    flag: "tool-profile",
+    validate: validateOneOf(["all", "read-only"]),
+  },
+  separator: {
+    env: "MCPD_PROXY_SEPARATOR",
+    flag: "separator",
+    validate: validateNonEmptyString,
+  },
+  serverAliases: {
+    env: "MCPD_PROXY_SERVER_ALIASES",
+    flag: "server-aliases",
+    fromString: recordFromString,
+    validate: validateStringRecord,
+  },
+  sanitizeToolNames: {
+    env: "MCPD_PROXY_SANITIZE_TOOL_NAMES",
+    flag: "sanitize-tool-names",
+    fromString: booleanFromString,
+    validate: validateBoolean,
+  },
+  maxToolNameLength: {
+    env: "MCPD_PROXY_MAX_TOOL_NAME_LENGTH",
+    flag: "max-tool-name-length",
+    fromString: numberFromString,
+    validate: validateIntegerAtLeast(MIN_MAX_NAME_LENGTH),
+  },
+  watchIntervalMs: {
+    env: "MCPD_PROXY_WATCH_INTERVAL_MS",
+    flag: "watch-interval-ms",
+    fromString: numberFromString,
+    validate: validateIntegerAtLeast(0),
+  },
+  subscriptionIntervalMs: {
+    env: "MCPD_PROXY_SUBSCRIPTION_INTERVAL_MS",
+    flag: "subscription-interval-ms",
+    fromString: numberFromString,
+    validate: validateIntegerAtLeast(0),
+  },
+  pageSize: {
+    env: "MCPD_PROXY_PAGE_SIZE",
+    flag: "page-size",
+    fromString: numberFromString,
+    validate: validateIntegerAtLeast(1),
+  },
+  catalogTtlMs: {
+    env: "MCPD_PROXY_CATALOG_TTL_MS",
+    flag: "catalog-ttl-ms",
+    fromString: numberRecordFromString,
+    validate: validateCatalogTtls,
+  },
+  serverTimeoutMs: {
+    env: "MCPD_PROXY_SERVER_TIMEOUT_MS",
+    flag: "server-timeout-ms",
+    fromString: numberFromString,
+    validate: validateIntegerAtLeast(0),
+  },
+  serverTimeouts: {
+    env: "MCPD_PROXY_SERVER_TIMEOUTS",
+    flag: "server-timeouts",
+    fromString: numberRecordFromString,
+    validate: validateIntegerRecord,
+  },
+  callTimeoutMs: {
+    env: "MCPD_PROXY_CALL_TIMEOUT_MS",
+    flag: "call-timeout-ms",
+    fromString: numberFromString,
+    validate: validateIntegerAtLeast(0),
+  },
+  callTimeouts: {
+    env: "MCPD_PROXY_CALL_TIMEOUTS",
+    flag: "call-timeouts",
+    fromString: numberRecordFromString,
+    validate: validateIntegerRecord,
+  },
+  progressIntervalMs: {
+    env: "MCPD_PROXY_PROGRESS_INTERVAL_MS",
+    flag: "progress-interval-ms",
+    fromString: numberFromString,
+    validate: validateIntegerAtLeast(0),
+  },
+  retries: {
+    env: "MCPD_PROXY_RETRIES",
+    flag: "retries",
+    fromString: numberFromString,
+    validate: validateIntegerAtLeast(0),
+  },
+  retryBaseDelayMs: {
+    env: "MCPD_PROXY_RETRY_BASE_DELAY_MS",
+    flag: "retry-base-delay-ms",
+    fromString: numberFromString,
+    validate: validateIntegerAtLeast(0),
+  },
+  retryMaxDelayMs: {
+    env: "MCPD_PROXY_RETRY_MAX_DELAY_MS",
+    flag: "retry-max-delay-ms",
+    fromString: numberFromString,
+    validate: validateIntegerAtLeast(0),
+  },
+  circuitBreakerThreshold: {
+    env: "MCPD_PROXY_CIRCUIT_BREAKER_THRESHOLD",
+    flag: "circuit-breaker-threshold",
+    fromString: numberFromString,
+    validate: validateIntegerAtLeast(0),
+  },
+  circuitBreakerCooldownMs: {
+    env: "MCPD_PROXY_CIRCUIT_BREAKER_COOLDOWN_MS",
+    flag: "circuit-breaker-cooldown-ms",
+    fromString: numberFromString,
+    validate: validateIntegerAtLeast(0),
+  },
+  logLevel: {
+    env: "MCPD_PROXY_LOG_LEVEL",
+    flag: "log-level",
+    validate: validateOneOf(LOG_LEVELS),
+  },
+  logFormat: {
+    env: "MCPD_PROXY_LOG_FORMAT",
+    flag: "log-format",
+    validate: validateOneOf(LOG_FORMATS),
+  },
+  otlpEndpoint: {
+    env: "MCPD_PROXY_OTLP_ENDPOINT",
+    flag: "otlp-endpoint",
+    validate: validateHttpUrl,
+  },
+  traceFile: {
+    env: "MCPD_PROXY_TRACE_FILE",
+    flag: "trace-file",
+    validate: validateNonEmptyString,
+  },
+  metricsHost: {
+    env: "MCPD_PROXY_METRICS_HOST",
+    flag: "metrics-host",
+    validate: validateNonEmptyString,
+  },
+  metricsPort: {
+    env: "MCPD_PROXY_METRICS_PORT",
+    flag: "metrics-port",
+    fromString: numberFromString,
+    validate: validatePort,
+  },
+};
+
+/**
+ * Validate raw values for one layer, collecting issues instead of throwing.
+ *
+ * @param raw - Field values keyed by config field name
+ * @param label - Produces the issue prefix for a field (e.g., "--port")
+ * @param issues - Accumulator for validation problems
+ * @returns The valid subset of the layer
+ */
+function validateLayer(
+  raw: Record<string, unknown>,
+  label: (field: string) => string,
+  issues: string[],
+): Partial<Config> {
+  const layer: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (!Object.hasOwn(FIELDS, field)) {
+      issues.push(`${label(field)}: unknown field`);
+      continue;
+    }
+
+    const problem = FIELDS[field as keyof Config].validate(value);
+    if (problem) {
+      issues.push(`${label(field)}: ${problem}`);
+    } else {
+      layer[field] = value;
+    }
+  }
+
+  return layer as Partial<Config>;
+}
+
+/**
+ * Read and parse a JSON or TOML config file.
+ *
+ * @param path - Path to the config file (.json or .toml)
+ * @returns Raw config values
+ * @throws ConfigError if the file cannot be read or parsed
+ */
+function readConfigFile(path: string): Record<string, unknown> {
+  const extension = extname(path).toLowerCase();
+  if (extension !== ".json" && extension !== ".toml") {
+    throw new ConfigError([
+      `${path}: unsupported config file type, expected .json or .toml`,
+    ]);
+  }
+
+  let parsed: unknown;
+  try {
+    const text = readFileSync(path, "utf8");
+    parsed = extension === ".json" ? JSON.parse(text) : parseToml(text);
+  } catch (error) {
+    throw new ConfigError([`${path}: ${(error as Error).message}`]);
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new ConfigError([`${path}: expected a top-level object`]);
+  }
+
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Load configuration from defaults, config file, environment and CLI flags.
+ *
+ * Config file: path from --config or MCPD_PROXY_CONFIG (.json or .toml),
+ * using the same field names as {@link Config}.
  *
  * Environment variables:
- * - MCPD_ADDR: mcpd daemon address (default: http://localhost:8090)
+ * - MCPD_ADDR: mcpd daemon address; empty means unset (default: http://localhost:8090)
  * - MCPD_API_KEY: Optional API key for mcpd authentication
+ * - MCPD_PROXY_TRANSPORT: Transport to serve, stdio or http (default: stdio)
+ * - MCPD_PROXY_HOST: HTTP transport bind host (default: 127.0.0.1)
+ * - MCPD_PROXY_PORT: HTTP transport port (default: 8091)
+ * - MCPD_PROXY_ALLOWED_HOSTS: Comma-separated host names HTTP clients may use besides the bind host and localhost
+ * - MCPD_PROXY_SESSION_IDLE_MS: Idle time before an HTTP session is closed, 0 disables (default: 1800000)
+ * - MCPD_PROXY_INCLUDE_SERVERS: Comma-separated server globs to expose
+ * - MCPD_PROXY_EXCLUDE_SERVERS: Comma-separated server globs to hide
+ * - MCPD_PROXY_INCLUDE_TOOLS: Comma-separated server__tool globs to expose
+ * - MCPD_PROXY_EXCLUDE_TOOLS: Comma-separated server__tool globs to hide
+ * - MCPD_PROXY_TOOL_PROFILE: Tool profile, all or read-only (default: all)
+ * - MCPD_PROXY_SEPARATOR: Server/item separator in names (default: __)
+ * - MCPD_PROXY_SERVER_ALIASES: Comma-separated server=prefix aliases
+ * - MCPD_PROXY_SANITIZE_TOOL_NAMES: Sanitize tool names, true or false (default: true)
+ * - MCPD_PROXY_MAX_TOOL_NAME_LENGTH: Maximum sanitized tool name length (default: 64)
+ * - MCPD_PROXY_WATCH_INTERVAL_MS: Catalog change poll interval, 0 disables (default: 30000)
+ * - MCPD_PROXY_SUBSCRIPTION_INTERVAL_MS: Subscribed resource poll interval, 0 disables (default: 5000)
+ * - MCPD_PROXY_PAGE_SIZE: Maximum number of items per list page (default: 100)
+ * - MCPD_PROXY_CATALOG_TTL_MS: Comma-separated kind=ms catalog cache TTLs (default: 10000 each)
+ * - MCPD_PROXY_SERVER_TIMEOUT_MS: Per-server list deadline, 0 disables (default: 5000)
+ * - MCPD_PROXY_SERVER_TIMEOUTS: Comma-separated server=ms list deadline overrides
+ * - MCPD_PROXY_LOG_LEVEL: Minimum log level, debug through emergency (default: info)
+ * - MCPD_PROXY_LOG_FORMAT: stderr log format, text or json (default: text)
+ * - MCPD_PROXY_OTLP_ENDPOINT: OTLP/HTTP traces endpoint to export spans to
+ * - MCPD_PROXY_TRACE_FILE: File to append spans to as OTLP/JSON lines
+ * - MCPD_PROXY_METRICS_HOST: Metrics listener bind host (default: 127.0.0.1)
+ * - MCPD_PROXY_METRICS_PORT: Port to serve Prometheus metrics on (default: off)
+ * - MCPD_PROXY_CALL_TIMEOUT_MS: Tool call timeout, 0 waits for mcpd (default: 0)
+ * - MCPD_PROXY_CALL_TIMEOUTS: Comma-separated name=ms call timeout overrides by server or tool
+ * - MCPD_PROXY_PROGRESS_INTERVAL_MS: Tool call heartbeat interval, 0 disables (default: 10000)
+ * - MCPD_PROXY_RETRIES: Retries of idempotent mcpd calls, 0 disables (default: 2)
+ * - MCPD_PROXY_RETRY_BASE_DELAY_MS: Delay before the first retry, doubled per retry (default: 200)
+ * - MCPD_PROXY_RETRY_MAX_DELAY_MS: Cap on the delay between retries (default: 2000)
+ * - MCPD_PROXY_CIRCUIT_BREAKER_THRESHOLD: Consecutive server failures that open its circuit, 0 disables (default: 5)
+ * - MCPD_PROXY_CIRCUIT_BREAKER_COOLDOWN_MS: Time before an open circuit admits a probe (default: 30000)
  *
+ * CLI flags:
+ * - --config <path>: Config file path
+ * - --mcpd-addr <url>: mcpd daemon address
+ * - --transport <stdio|http>: Transport to serve
+ * - --host <host>: HTTP transport bind host
+ * - --port <port>: HTTP transport port
+ * - --allowed-hosts <hosts>: Comma-separated host names HTTP clients may use
+ * - --session-idle-ms <ms>: Idle time before an HTTP session is closed, 0 disables
+ * - --include-servers <globs>: Comma-separated server globs to expose
+ * - --exclude-servers <globs>: Comma-separated server globs to hide
+ * - --include-tools <globs>: Comma-separated server__tool globs to expose
+ * - --exclude-tools <globs>: Comma-separated server__tool globs to hide
+ * - --tool-profile <all|read-only>: Tool profile
+ * - --separator <separator>: Server/item separator in names
+ * - --server-aliases <aliases>: Comma-separated server=prefix aliases
+ * - --sanitize-tool-names <true|false>: Sanitize tool names
+ * - --max-tool-name-length <length>: Maximum sanitized tool name length
+ * - --watch-interval-ms <ms>: Catalog change poll interval, 0 disables
+ * - --subscription-interval-ms <ms>: Subscribed resource poll interval, 0 disables
+ * - --page-size <count>: Maximum number of items per list page
+ * - --catalog-ttl-ms <ttls>: Comma-separated kind=ms catalog cache TTLs
+ * - --server-timeout-ms <ms>: Per-server list deadline, 0 disables
+ * - --server-timeouts <timeouts>: Comma-separated server=ms list deadline overrides
+ * - --log-level <level>: Minimum log level
+ * - --log-format <text|json>: stderr log format
+ * - --otlp-endpoint <url>: OTLP/HTTP traces endpoint
+ * - --trace-file <path>: File to append spans to
+ * - --metrics-host <host>: Metrics listener bind host
+ * - --metrics-port <port>: Port to serve Prometheus metrics on
+ * - --call-timeout-ms <ms>: Tool call timeout, 0 waits for mcpd
+ * - --call-timeouts <timeouts>: Comma-separated name=ms call timeout overrides
+ * - --progress-interval-ms <ms>: Tool call heartbeat interval, 0 disables
+ * - --retries <count>: Retries of idempotent mcpd calls, 0 disables
+ * - --retry-base-delay-ms <ms>: Delay before the first retry
+ * - --retry-max-delay-ms <ms>: Cap on the delay between retries
+ * - --circuit-breaker-threshold <count>: Consecutive server failures that open its circuit, 0 disables
+ * - --circuit-breaker-cooldown-ms <ms>: Time before an open circuit admits a probe
+ *
+ * @param args - CLI arguments, without the node executable and script path.
+ * @param env - Environment variables (default: process.env).
  * @returns Configuration object.
+ * @throws ConfigError listing every invalid field across all layers.
  */
-export function loadConfig(): Config {
-  return {
-    mcpdAddr: process.env.MCPD_ADDR || "http://localhost:8090",
-    mcpdApiKey: process.env.MCPD_API_KEY,
+export function loadConfig(
+  args: string[] = [],
+  env: NodeJS.ProcessEnv = process.env,
+): Config {
+  const flagOptions: Record<string, { type: "string" }> = {
+    config: { type: "string" },
   };
+  for (const spec of Object.values(FIELDS)) {
+    if (spec.flag) {
+      flagOptions[spec.flag] = { type: "string" };
+    }
+  }
+
+  let flags: Record<string, string | undefined>;
+  try {
+    flags = parseArgs({ args, options: flagOptions, strict: true })
+      .values as Record<string, string | undefined>;
+  } catch (error) {
+    throw new ConfigError([(error as Error).message]);
+  }
+
+  const issues: string[] = [];
+
+  const configPath = flags.config ?? env[CONFIG_FILE_ENV];
+  const fileLayer = configPath
+    ? validateLayer(
+        readConfigFile(configPath),
+        (field) => `${configPath}: ${field}`,
+        issues,
+      )
+    : {};
+
+  const rawEnv: Record<string, unknown> = {};
+  const rawFlags: Record<string, unknown> = {};
+  const envNames: Record<string, string> = {};
+  const flagNames: Record<string, string> = {};
+
+  for (const [field, spec] of Object.entries(FIELDS)) {
+    const convert = spec.fromString ?? ((value: string) => value);
+
+    if (
+      spec.env &&
+      env[spec.env] !== undefined &&
+      !(spec.emptyEnvIsUnset && env[spec.env] === "")
+    ) {
+      rawEnv[field] = convert(env[spec.env]!);
+      envNames[field] = spec.env;
+    }
+    if (spec.flag && flags[spec.flag] !== undefined) {
+      rawFlags[field] = convert(flags[spec.flag]!);
+      flagNames[field] = `--${spec.flag}`;
+    }
+  }
+
+  const envLayer = validateLayer(rawEnv, (field) => envNames[field], issues);
+  const flagLayer = validateLayer(
+    rawFlags,
+    (field) => flagNames[field],
+    issues,
+  );
+
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  return { ...DEFAULT_CONFIG, ...fileLayer, ...envLayer, ...flagLayer };
 }
@@ -0,0 +1,240 @@
+/**
+ * Partial-failure diagnostics for mcpd-proxy.
+ *
+ * When a server fails or misses its deadline while a catalog is aggregated,
+ * its items silently disappear from (or go stale in) the list. Diagnostics
+ * records every such server per catalog with the error class, logs changes
+ * (which sessions forward to their clients as MCP log messages) and renders
+ * the current state as a resource. The resource also lists items hidden by
+ * name collisions, counts the calls to mcpd that only succeeded (or failed)
+ * after retrying, and lists servers whose circuit breaker is open or has
+ * recorded failures.
+ */
+
+import type { CatalogCacheKind } from "./catalogCache.js";
+import type { CircuitStatus } from "./circuitBreaker.js";
+import type { SkippedServer } from "./fanout.js";
+import { logger } from "./logger.js";
+import type { NameCollision } from "./naming.js";
+
+/** URI of the diagnostics resource. */
+export const DIAGNOSTICS_RESOURCE_URI = "mcpd-proxy://diagnostics";
+
+/**
+ * A server currently failing while one catalog is aggregated.
+ */
+export interface ServerFailure extends SkippedServer {
+  /** Catalog the server failed to contribute to. */
+  catalog: CatalogCacheKind;
+
+  /** When the server started failing (ISO 8601). */
+  since: string;
+}
+
+/**
+ * Two items given the same exposed name in one catalog.
+ */
+export interface CatalogCollision extends NameCollision {
+  /** Catalog the names collide in. */
+  catalog: CatalogCacheKind;
+}
+
+/**
+ * Retries of one mcpd operation, for one server or daemon-wide.
+ */
+export interface RetryCount {
+  /** mcpd SDK method (e.g., "getTools"). */
+  operation: string;
+
+  /** Server the operation was about, if any. */
+  server?: string;
+
+  /** Retries since the proxy started. */
+  retries: number;
+
+  /** Class of the error behind the latest retry, e.g. ConnectionError. */
+  errorType: string;
+
+  /** Message of the error behind the latest retry. */
+  message: string;
+
+  /** When the latest retry was scheduled (ISO 8601). */
+  lastRetry: string;
+}
+
+/**
+ * Options for {@link Diagnostics}.
+ */
+export interface DiagnosticsOptions {
+  /** Clock, for tests (default: current time). */
+  now?: () => Date;
+
+  /** Current circuit breaker states, included in the resource. */
+  circuits?: () => CircuitStatus[];
+}
+
+/**
+ * Tracks servers failing per catalog.
+ *
+ * A failure is reported once when it starts (or its error class changes) and
+ * once when the server recovers, not on every aggregation.
+ */
+export class Diagnostics {
+  readonly #now: () => Date;
+  readonly #circuits: () => CircuitStatus[];
+  readonly #failures = new Map<CatalogCacheKind, ServerFailure[]>();
+  readonly #retries = new Map<string, RetryCount>();
+  readonly #collisions = new Map<CatalogCacheKind, CatalogCollision[]>();
+
+  constructor(options: DiagnosticsOptions = {}) {
+    this.#now = options.now ?? (() => new Date());
+    this.#circuits = options.circuits ?? (() => []);
+  }
+
+  /**
+   * Record the servers skipped by the latest aggregation of a catalog.
+   *
+   * @param catalog - Catalog that was aggregated
+   * @param skipped - Servers skipped by that aggregation (empty if none)
+   */
+  record(catalog: CatalogCacheKind, skipped: SkippedServer[]): void {
+    const previous = new Map(
+      (this.#failures.get(catalog) ?? []).map((failure) => [
+        failure.server,
+        failure,
+      ]),
+    );
+
+    const failures = skipped.map((server): ServerFailure => {
+      const known = previous.get(server.server);
+      if (known && known.errorType === server.errorType) {
+        return { ...server, catalog, since: known.since };
+      }
+
+      const failure = { ...server, catalog, since: this.#now().toISOString() };
+      logger.warning(
+        `Skipped server '${server.server}' while listing ${catalog} ` +
+          `(${server.errorType}${server.stale ? ", serving last snapshot" : ""}): ` +
+          server.message,
+        { failure },
+      );
+      return failure;
+    });
+
+    for (const server of previous.keys()) {
+      if (!skipped.some((failure) => failure.server === server)) {
+        logger.info(`Server '${server}' recovered while listing ${catalog}`, {
+          catalog,
+          server,
+        });
+      }
+    }
+
+    this.#failures.set(catalog, failures);
+  }
+
+  /**
+   * Servers currently failing, for one catalog or all of them.
+   *
+   * @param catalog - Catalog to filter by (default: all catalogs)
+   * @returns Current failures
+   */
+  failures(catalog?: CatalogCacheKind): ServerFailure[] {
+    return catalog
+      ? [...(this.#failures.get(catalog) ?? [])]
+      : [...this.#failures.values()].flat();
+  }
+
+  /**
+   * Record the name collisions found by the latest rebuild of a catalog's
+   * name table. Each collision is logged by the name table itself.
+   *
+   * @param catalog - Catalog whose names were rebuilt
+   * @param collisions - Collisions found by that rebuild (empty if none)
+   */
+  recordCollisions(catalog: CatalogCacheKind, collisions: NameCollision[]) {
+    this.#collisions.set(
+      catalog,
+      collisions.map((collision) => ({ ...collision, catalog })),
+    );
+  }
+
+  /**
+   * Items currently hidden by name collisions, in every catalog.
+   *
+   * @returns Current collisions
+   */
+  collisions(): CatalogCollision[] {
+    return [...this.#collisions.values()].flat();
+  }
+
+  /**
+   * Count a retry of an mcpd operation.
+   *
+   * @param operation - mcpd SDK method that is retried
+   * @param server - Server the operation is about, if any
+   * @param error - Error of the failed attempt
+   */
+  recordRetry(operation: string, server: string | undefined, error: unknown) {
+    const key = JSON.stringify([operation, server]);
+    this.#retries.set(key, {
+      operation,
+      ...(server !== undefined && { server }),
+      retries: (this.#retries.get(key)?.retries ?? 0) + 1,
+      errorType: error instanceof Error ? error.name : typeof error,
+      message: error instanceof Error ? error.message : String(error),
+      lastRetry: this.#now().toISOString(),
+    });
+  }
+
+  /**
+   * Retry counts per operation and server.
+   *
+   * @returns Operations retried since the proxy started
+   */
+  retries(): RetryCount[] {
+    return [...this.#retries.values()];
+  }
+
+  /**
+   * The current failures, name collisions, retry counts and circuit states.
+   *
+   * Unlike the resource contents, the snapshot carries no generation time, so
+   * two snapshots are equal unless something actually changed.
+   *
+   * @returns Diagnostics report without a timestamp
+   */
+  snapshot(): {
+    failures: ServerFailure[];
+    collisions: CatalogCollision[];
+    retries: RetryCount[];
+    circuits: CircuitStatus[];
+  } {
+    return {
+      failures: this.failures(),
+      collisions: this.collisions(),
+      retries: this.retries(),
+      circuits: this.#circuits(),
+    };
+  }
+
+  /**
+   * Render the current failures, name collisions, retry counts and circuit
+   * states as the diagnostics resource contents.
+   *
+   * @returns Resource contents with a JSON report
+   */
+  toResourceContents(): Array<{ uri: string; mimeType: string; text: string }> {
+    return [
+      {
+        uri: DIAGNOSTICS_RESOURCE_URI,
+        mimeType: "application/json",
+        text: JSON.stringify(
+          { generatedAt: this.#now().toISOString(), ...this.snapshot() },
+          null,
+          2,
+        ),
+      },
+    ];
+  }
+}
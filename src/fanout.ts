@@ -0,0 +1,154 @@
+/**
+ * Per-server deadlines for mcpd-proxy list fan-out.
+ *
+ * Aggregating a catalog queries every healthy server in parallel and would
+ * otherwise wait for the slowest one. Each server gets a deadline instead;
+ * a server that misses it (or fails) contributes its last good snapshot if
+ * there is one, and is dropped otherwise. Either way it is reported as
+ * skipped so the caller can tell the catalog is incomplete.
+ */
+
+/** Default time in milliseconds a server has to answer a list request. */
+export const DEFAULT_SERVER_TIMEOUT_MS = 5_000;
+
+/**
+ * Error used when a server misses its fan-out deadline.
+ */
+export class DeadlineExceededError extends Error {
+  /** Deadline that was missed, in milliseconds. */
+  readonly timeoutMs: number;
+
+  constructor(serverName: string, timeoutMs: number) {
+    super(`Server '${serverName}' did not answer within ${timeoutMs}ms`);
+    this.name = "DeadlineExceededError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * A server whose fresh contribution is missing from a fan-out.
+ */
+export interface SkippedServer {
+  /** Server name. */
+  server: string;
+
+  /** Whether the server missed its deadline or failed. */
+  reason: "timeout" | "error";
+
+  /**
+   * Class of the error, e.g. ConnectionError, AuthenticationError or
+   * TimeoutError from the mcpd SDK, or DeadlineExceededError.
+   */
+  errorType: string;
+
+  /** Error message from the server or the deadline. */
+  message: string;
+
+  /** True if the server's last good snapshot was served instead. */
+  stale: boolean;
+}
+
+/**
+ * Options for {@link fanOut}.
+ */
+export interface FanOutOptions<T> {
+  /** Deadline in milliseconds for a server; 0 waits indefinitely. */
+  timeoutMs?: (serverName: string) => number;
+
+  /**
+   * Last good result per server. Successful results are stored, including
+   * ones that arrive after their deadline; failed servers are served from it.
+   */
+  snapshots?: Map<string, T>;
+}
+
+/**
+ * Results of a fan-out.
+ */
+export interface FanOutResult<T> {
+  /** Fresh or snapshot result per server, in the order of the servers. */
+  results: Array<{ serverName: string; value: T }>;
+
+  /** Servers that missed their deadline or failed. */
+  skipped: SkippedServer[];
+}
+
+/**
+ * Reject with {@link DeadlineExceededError} if a promise does not settle in
+ * time. A deadline of 0 disables the timeout.
+ */
+function withDeadline<T>(
+  promise: Promise<T>,
+  serverName: string,
+  timeoutMs: number,
+): Promise<T> {
+  if (timeoutMs <= 0) {
+    return promise;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(
+      () => reject(new DeadlineExceededError(serverName, timeoutMs)),
+      timeoutMs,
+    );
+  });
+  return Promise.race([promise, deadline]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Query every server in parallel, each within its own deadline.
+ *
+ * Requests that miss their deadline are not cancelled (the mcpd SDK has no
+ * cancellation), but their late results still refresh the snapshot.
+ *
+ * @param serverNames - Servers to query
+ * @param fetch - Queries one server
+ * @param options - Deadlines and snapshots
+ * @returns Results per server and the servers that were skipped
+ */
+export async function fanOut<T>(
+  serverNames: string[],
+  fetch: (serverName: string) => Promise<T>,
+  options: FanOutOptions<T> = {},
+): Promise<FanOutResult<T>> {
+  const { timeoutMs = () => 0, snapshots } = options;
+
+  const settled = await Promise.allSettled(
+    serverNames.map((serverName) =>
+      withDeadline(
+        fetch(serverName).then((value) => {
+          snapshots?.set(serverName, value);
+          return value;
+        }),
+        serverName,
+        timeoutMs(serverName),
+      ),
+    ),
+  );
+
+  const results: FanOutResult<T>["results"] = [];
+  const skipped: SkippedServer[] = [];
+  settled.forEach((outcome, index) => {
+    const serverName = serverNames[index];
+    if (outcome.status === "fulfilled") {
+      results.push({ serverName, value: outcome.value });
+      return;
+    }
+
+    const snapshot = snapshots?.get(serverName);
+    if (snapshot !== undefined) {
+      results.push({ serverName, value: snapshot });
+    }
+    const error: unknown = outcome.reason;
+    skipped.push({
+      server: serverName,
+      reason: error instanceof DeadlineExceededError ? "timeout" : "error",
+      errorType: error instanceof Error ? error.name : typeof error,
+      message: error instanceof Error ? error.message : String(error),
+      stale: snapshot !== undefined,
+    });
+  });
+
+  return { results, skipped };
+}
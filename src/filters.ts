@@ -0,0 +1,69 @@
+/**
+ * Name filtering for mcpd-proxy.
+ *
+ * Include/exclude lists with glob patterns decide which mcpd-managed servers
+ * and tools are exposed to clients, and tool profiles hide tools based on
+ * their MCP annotations.
+ */
+
+import type { ToolAnnotations } from "@mozilla-ai/mcpd";
+
+/**
+ * Convert a glob pattern into an anchored regular expression.
+ *
+ * Supported wildcards: `*` matches any run of characters (including none)
+ * and `?` matches exactly one character. Everything else is literal.
+ *
+ * @param pattern - Glob pattern (e.g., "git*")
+ * @returns Regular expression matching the whole name
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = Array.from(pattern, (char) => {
+    if (char === "*") return ".*";
+    if (char === "?") return ".";
+    return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }).join("");
+
+  return new RegExp(`^${source}$`, "s");
+}
+
+/**
+ * Create a predicate from include/exclude glob lists.
+ *
+ * A name passes when it matches at least one include pattern (or no include
+ * patterns are given) and matches none of the exclude patterns. Exclusion
+ * always wins over inclusion.
+ *
+ * @param include - Glob patterns a name must match (empty or undefined allows all)
+ * @param exclude - Glob patterns a name must not match
+ * @returns Predicate returning true for allowed names
+ */
+export function createNameFilter(
+  include: string[] = [],
+  exclude: string[] = [],
+): (name: string) => boolean {
+  const includeRegExps = include.map(globToRegExp);
+  const excludeRegExps = exclude.map(globToRegExp);
+
+  return (name) =>
+    (includeRegExps.length === 0 ||
+      includeRegExps.some((regExp) => regExp.test(name))) &&
+    !excludeRegExps.some((regExp) => regExp.test(name));
+}
+
+/**
+ * Check whether a tool's MCP annotations allow it to be destructive.
+ *
+ * Per the MCP spec, `destructiveHint` is only meaningful when the tool is not
+ * read-only, and defaults to true. So a tool with `readOnlyHint: true` is never
+ * destructive, and any other tool is unless it sets `destructiveHint: false`,
+ * including tools without annotations.
+ *
+ * @param annotations - Tool annotations from the upstream server
+ * @returns True if the tool may be destructive
+ */
+export function isDestructiveTool(annotations?: ToolAnnotations): boolean {
+  return (
+    annotations?.readOnlyHint !== true && annotations?.destructiveHint !== false
+  );
+}
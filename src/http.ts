@@ -0,0 +1,339 @@
+/**
+ * Streamable HTTP transport for mcpd-proxy.
+ *
+ * Serves the MCP server over the MCP Streamable HTTP transport, using SSE for
+ * server-to-client messages. Each client session gets its own MCP Server
+ * instance so several clients can share one proxy process.
+ *
+ * Requests whose Host or Origin header names a host other than the bound host,
+ * localhost or the configured allowed hosts are rejected, so a web page cannot
+ * reach the proxy through DNS rebinding. Sessions that receive no requests for
+ * the idle timeout are closed, releasing their MCP Server and its pollers.
+ */
+
+import { randomUUID } from "node:crypto";
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server as HttpServer,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+
+/** Path the MCP endpoint is served on. */
+export const MCP_PATH = "/mcp";
+
+/** Maximum accepted POST body size in bytes. */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Default time in milliseconds a session may go without requests. */
+export const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+/** Host names accepted in Host and Origin headers whatever the bound host. */
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+/** Bind addresses that listen on every interface rather than naming a host. */
+const WILDCARD_HOSTS = ["0.0.0.0", "::", "[::]"];
+
+/**
+ * Options for the HTTP transport listener.
+ */
+export interface HttpServerOptions {
+  /** Host interface to bind to. */
+  host: string;
+
+  /** Port to listen on (0 picks a free port). */
+  port: number;
+
+  /** Host names accepted in Host and Origin headers besides the bound host and localhost. */
+  allowedHosts?: string[];
+
+  /** Time in milliseconds a session may go without requests before it is closed; 0 disables (default: 30 minutes). */
+  sessionIdleMs?: number;
+}
+
+/**
+ * Running HTTP transport listener.
+ */
+export interface RunningHttpServer {
+  /** Underlying Node.js HTTP server. */
+  httpServer: HttpServer;
+
+  /** Address the listener is bound to. */
+  address: AddressInfo;
+
+  /** Close all sessions and stop listening. */
+  close(): Promise<void>;
+}
+
+/**
+ * One client session and its open requests.
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport;
+
+  /** Requests of the session whose responses are still open. */
+  open: number;
+
+  /** Closes the session once it has been idle for the timeout. */
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Write a JSON-RPC error response with the given HTTP status.
+ *
+ * @param res - HTTP response
+ * @param status - HTTP status code
+ * @param code - JSON-RPC error code
+ * @param message - Human-readable error message
+ */
+function writeJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }),
+  );
+}
+
+/**
+ * Collect the host names clients may address the listener by.
+ *
+ * @param options - Listener options
+ * @returns Lowercase host names, IPv6 addresses in brackets
+ */
+function allowedHostNames(options: HttpServerOptions): Set<string> {
+  const normalize = (host: string) =>
+    (host.includes(":") && !host.startsWith("[")
+      ? `[${host}]`
+      : host
+    ).toLowerCase();
+  const hosts = new Set(LOOPBACK_HOSTS);
+  if (!WILDCARD_HOSTS.includes(options.host)) {
+    hosts.add(normalize(options.host));
+  }
+  for (const host of options.allowedHosts ?? []) {
+    hosts.add(normalize(host));
+  }
+  return hosts;
+}
+
+/**
+ * Check a request's Host and Origin headers against the allowed host names.
+ * Requests without an Origin header (i.e., not from a browser) only need an
+ * allowed Host.
+ *
+ * @param req - HTTP request
+ * @param allowed - Allowed host names
+ * @returns Why the request is rejected, or undefined if it is allowed
+ */
+function checkRequestHost(
+  req: IncomingMessage,
+  allowed: Set<string>,
+): string | undefined {
+  const { host, origin } = req.headers;
+  if (!host || !URL.canParse(`http://${host}`)) {
+    return `Host header not allowed: ${host ?? "(none)"}`;
+  }
+  if (!allowed.has(new URL(`http://${host}`).hostname)) {
+    return `Host header not allowed: ${host}`;
+  }
+  if (
+    origin !== undefined &&
+    (!URL.canParse(origin) || !allowed.has(new URL(origin).hostname))
+  ) {
+    return `Origin header not allowed: ${origin}`;
+  }
+  return undefined;
+}
+
+/**
+ * Read and parse a JSON request body.
+ *
+ * @param req - HTTP request
+ * @returns Parsed JSON body
+ * @throws Error if the body is too large or is not valid JSON
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+/**
+ * Start the Streamable HTTP transport listener.
+ *
+ * A new MCP Server is created via `createServer` for every initialize request,
+ * and subsequent requests are routed to it by the `Mcp-Session-Id` header.
+ * A session's idle timer only runs while none of its requests are open, so
+ * long tool calls and open SSE streams keep it alive.
+ *
+ * @param options - Host and port to listen on, allowed hosts and idle timeout
+ * @param createServer - Factory producing a fresh MCP Server per session
+ * @returns Running listener with its bound address
+ */
+export async function startHttpServer(
+  options: HttpServerOptions,
+  createServer: () => Server,
+): Promise<RunningHttpServer> {
+  const sessions = new Map<string, Session>();
+  const allowedHosts = allowedHostNames(options);
+  const sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+
+  /**
+   * Count a request as open on its session until its response closes, and
+   * start the idle timer once the last open request is done.
+   */
+  function track(session: Session, res: ServerResponse): void {
+    session.open++;
+    clearTimeout(session.idleTimer);
+    session.idleTimer = undefined;
+    res.once("close", () => {
+      session.open--;
+      if (session.open === 0 && sessionIdleMs > 0) {
+        session.idleTimer = setTimeout(() => {
+          logger.info("Closing idle HTTP session", {
+            sessionId: session.transport.sessionId,
+          });
+          void session.transport.close();
+        }, sessionIdleMs);
+        session.idleTimer.unref();
+      }
+    });
+  }
+
+  async function handleMcpRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    const rejection = checkRequestHost(req, allowedHosts);
+    if (rejection) {
+      writeJsonRpcError(res, 403, -32000, `Forbidden: ${rejection}`);
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        writeJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      track(session, res);
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      writeJsonRpcError(
+        res,
+        400,
+        -32000,
+        "Bad Request: No valid session ID provided",
+      );
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      writeJsonRpcError(
+        res,
+        400,
+        -32700,
+        `Parse error: ${(error as Error).message}`,
+      );
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      writeJsonRpcError(
+        res,
+        400,
+        -32000,
+        "Bad Request: No valid session ID provided",
+      );
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, session);
+      },
+    });
+    const session: Session = { transport, open: 0 };
+    track(session, res);
+
+    // Set before connect(): the Server chains its own close handling onto it.
+    transport.onclose = () => {
+      clearTimeout(session.idleTimer);
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+    if (pathname !== MCP_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    handleMcpRequest(req, res).catch((error) => {
+      logger.error("HTTP request failed", { error });
+      if (!res.headersSent) {
+        writeJsonRpcError(res, 500, -32603, "Internal server error");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return {
+    httpServer,
+    address: httpServer.address() as AddressInfo,
+    async close() {
+      await Promise.allSettled(
+        [...sessions.values()].map(({ transport }) => transport.close()),
+      );
+      sessions.clear();
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve, reject) =>
+        httpServer.close((error) => (error ? reject(error) : resolve())),
+      );
+    },
+  };
+}
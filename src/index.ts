@@ -2,28 +2,87 @@
 /**
  * mcpd-proxy CLI entry point.
  *
- * Sets up STDIO transport and starts the MCP server.
- * All logging goes to stderr as stdout is reserved for MCP JSON-RPC protocol.
+ * Sets up the STDIO or Streamable HTTP transport and starts the MCP server.
+ * All logging goes to stderr (see logger.ts) as stdout is reserved for MCP
+ * JSON-RPC protocol. Tool call cancellation, tracing and the metrics listener
+ * are set up here (see cancellation.ts, tracing.ts and metrics.ts).
  */
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { createMcpServer } from "./server.js";
-import { loadConfig } from "./config.js";
+import { propagateAbortSignal } from "./cancellation.js";
+import { createCatalogs, createMcpdClient, createMcpServer } from "./server.js";
+import {
+  ConfigError,
+  DEFAULT_HTTP_HOST,
+  DEFAULT_HTTP_PORT,
+  loadConfig,
+} from "./config.js";
+import { MCP_PATH, startHttpServer } from "./http.js";
+import { logger } from "./logger.js";
+import { METRICS_PATH, startMetricsServer } from "./metrics.js";
+import {
+  createSpanExporters,
+  propagateTraceContext,
+  tracer,
+} from "./tracing.js";
+import pkg from "../package.json" with { type: "json" };
 
 /**
  * Main entry point for mcpd-proxy.
  *
- * Loads configuration, creates MCP server, and connects via STDIO transport.
+ * Loads configuration, creates MCP server, and connects via the configured
+ * transport. In HTTP mode, each client session gets its own MCP server backed
+ * by one shared McpdClient and catalog cache.
  */
 async function main(): Promise<void> {
-  const config = loadConfig();
-
   try {
+    const config = loadConfig(process.argv.slice(2));
+    logger.configure({ level: config.logLevel, format: config.logFormat });
+    propagateAbortSignal(config.mcpdAddr);
+    tracer.configure({ exporters: createSpanExporters(config, pkg.version) });
+    if (tracer.enabled) {
+      propagateTraceContext(config.mcpdAddr);
+      // Export the last batch before a normal exit.
+      process.on("beforeExit", () => void tracer.flush());
+    }
+
+    if (config.metricsPort !== undefined) {
+      const { address } = await startMetricsServer({
+        host: config.metricsHost ?? DEFAULT_HTTP_HOST,
+        port: config.metricsPort,
+      });
+      logger.info(
+        `Serving metrics on http://${address.address}:${address.port}${METRICS_PATH}`,
+      );
+    }
+
+    if (config.transport === "http") {
+      const mcpdClient = createMcpdClient(config);
+      const catalogs = createCatalogs(config, mcpdClient);
+      const { address } = await startHttpServer(
+        {
+          host: config.httpHost ?? DEFAULT_HTTP_HOST,
+          port: config.httpPort ?? DEFAULT_HTTP_PORT,
+          allowedHosts: config.httpAllowedHosts,
+          sessionIdleMs: config.httpSessionIdleMs,
+        },
+        () => createMcpServer(config, mcpdClient, catalogs),
+      );
+      logger.info(
+        `Listening on http://${address.address}:${address.port}${MCP_PATH}`,
+      );
+      return;
+    }
+
     const server = createMcpServer(config);
     const transport = new StdioServerTransport();
     await server.connect(transport);
   } catch (error) {
-    console.error("[mcpd-proxy] Failed to start:", error);
+    if (error instanceof ConfigError) {
+      logger.error(error.message);
+      process.exit(1);
+    }
+    logger.error("Failed to start", { error });
     process.exit(1);
   }
 }
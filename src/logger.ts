@@ -0,0 +1,244 @@
+/**
+ * Structured logging for mcpd-proxy.
+ *
+ * Every module logs through the process-wide {@link logger}. Records go to
+ * stderr (stdout is reserved for MCP JSON-RPC), as plain text or JSON lines,
+ * and to any registered sinks; each MCP session registers one to forward
+ * records to its client as notifications/message.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Log levels, as defined by MCP (RFC 5424 severities).
+ */
+export type LogLevel = LoggingLevel;
+
+/** Log levels from least to most severe. */
+export const LOG_LEVELS: readonly LogLevel[] = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+];
+
+/**
+ * stderr output format: "text" prints the message (and error, if any) on one
+ * line; "json" prints every field as a JSON line.
+ */
+export type LogFormat = "text" | "json";
+
+/** Log formats accepted in configuration. */
+export const LOG_FORMATS: readonly LogFormat[] = ["text", "json"];
+
+/** Default minimum level written to stderr. */
+export const DEFAULT_LOG_LEVEL: LogLevel = "info";
+
+/** Logger name used in JSON lines and MCP log messages. */
+export const LOGGER_NAME = "mcpd-proxy";
+
+/**
+ * One log entry.
+ */
+export interface LogRecord {
+  /** When the record was created (ISO 8601). */
+  time: string;
+
+  level: LogLevel;
+
+  message: string;
+
+  /** Structured context, e.g. server, method or durationMs. */
+  fields: Record<string, unknown>;
+}
+
+/**
+ * Receives every record, regardless of the stderr level.
+ */
+export type LogSink = (record: LogRecord) => void;
+
+/**
+ * Options for {@link Logger}.
+ */
+export interface LoggerOptions {
+  /** Minimum level written to stderr (default: info). */
+  level?: LogLevel;
+
+  /** stderr output format (default: text). */
+  format?: LogFormat;
+
+  /** Writes one line to stderr (default: console.error). */
+  write?: (line: string) => void;
+
+  /** Clock, for tests (default: current time). */
+  now?: () => Date;
+}
+
+/**
+ * Check whether a record of one level passes a minimum level.
+ *
+ * @param level - Level of the record
+ * @param threshold - Minimum level to pass
+ * @returns True if the record is at least as severe as the threshold
+ */
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Convert record fields to plain JSON values, rendering errors as their
+ * class and message.
+ *
+ * @param fields - Record fields
+ * @returns JSON-safe copy of the fields
+ */
+export function serializeFields(
+  fields: Record<string, unknown>,
+): Record<string, unknown> {
+  return JSON.parse(
+    JSON.stringify(fields, (_key, value: unknown) =>
+      value instanceof Error
+        ? { name: value.name, message: value.message }
+        : value,
+    ),
+  ) as Record<string, unknown>;
+}
+
+/**
+ * Render a record as one stderr line.
+ *
+ * @param record - Log record
+ * @param format - Output format
+ * @returns Line without a trailing newline
+ */
+export function formatLogRecord(record: LogRecord, format: LogFormat): string {
+  const { time, level, message, fields } = record;
+  if (format === "json") {
+    return JSON.stringify({
+      time,
+      level,
+      logger: LOGGER_NAME,
+      message,
+      ...serializeFields(fields),
+    });
+  }
+
+  const error = fields.error === undefined ? "" : `: ${String(fields.error)}`;
+  return `[${LOGGER_NAME}] ${message}${error}`;
+}
+
+/**
+ * Writes records at or above its level to stderr and passes every record to
+ * its sinks.
+ */
+export class Logger {
+  #level: LogLevel;
+  #format: LogFormat;
+  readonly #write: (line: string) => void;
+  readonly #now: () => Date;
+  readonly #sinks = new Set<LogSink>();
+  readonly #context = new AsyncLocalStorage<Record<string, unknown>>();
+
+  constructor(options: LoggerOptions = {}) {
+    this.#level = options.level ?? DEFAULT_LOG_LEVEL;
+    this.#format = options.format ?? "text";
+    this.#write = options.write ?? ((line) => console.error(line));
+    this.#now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Minimum level written to stderr.
+   */
+  get level(): LogLevel {
+    return this.#level;
+  }
+
+  /**
+   * Change the stderr level and format.
+   *
+   * @param options - New level and/or format; omitted values are kept
+   */
+  configure(options: { level?: LogLevel; format?: LogFormat }): void {
+    this.#level = options.level ?? this.#level;
+    this.#format = options.format ?? this.#format;
+  }
+
+  /**
+   * Receive every record.
+   *
+   * @param sink - Called once per record
+   * @returns Function that removes the sink
+   */
+  addSink(sink: LogSink): () => void {
+    this.#sinks.add(sink);
+    return () => this.#sinks.delete(sink);
+  }
+
+  /**
+   * Run a function with fields added to every record logged while it runs,
+   * including from the async work it starts. Replaces any outer context.
+   *
+   * @param fields - Fields to add (e.g., the MCP session)
+   * @param fn - Function to run
+   * @returns Result of the function
+   */
+  withContext<T>(fields: Record<string, unknown>, fn: () => T): T {
+    return this.#context.run(fields, fn);
+  }
+
+  /**
+   * Log a record.
+   *
+   * @param level - Severity
+   * @param message - Human-readable message
+   * @param fields - Structured context, added to the context fields; an
+   *   `error` field is printed in text format too
+   */
+  log(
+    level: LogLevel,
+    message: string,
+    fields: Record<string, unknown> = {},
+  ): void {
+    const record = {
+      time: this.#now().toISOString(),
+      level,
+      message,
+      fields: { ...this.#context.getStore(), ...fields },
+    };
+
+    if (isLevelEnabled(level, this.#level)) {
+      this.#write(formatLogRecord(record, this.#format));
+    }
+    for (const sink of this.#sinks) {
+      try {
+        sink(record);
+      } catch {
+        // A failing sink must not break logging for the others.
+      }
+    }
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.log("info", message, fields);
+  }
+
+  warning(message: string, fields?: Record<string, unknown>): void {
+    this.log("warning", message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.log("error", message, fields);
+  }
+}
+
+/** Process-wide logger, configured at startup (see src/index.ts). */
+export const logger = new Logger();
@@ -0,0 +1,99 @@
+/**
+ * Hooks into the mcpd SDK's HTTP requests for mcpd-proxy.
+ *
+ * The mcpd SDK calls the global fetch, and takes neither a fetch function nor
+ * per-request options such as an AbortSignal or extra headers. To cancel tool
+ * calls and propagate trace context, the proxy replaces globalThis.fetch once
+ * with a wrapper that applies its hooks to requests aimed at the mcpd address
+ * only. Every other request, such as the OTLP exporter's or those of other
+ * libraries, reaches the original fetch untouched.
+ */
+
+/**
+ * Adjusts the options of one request to mcpd.
+ *
+ * @returns New request options, or undefined to leave the request unchanged
+ */
+export type McpdRequestHook = (
+  input: string | URL | Request,
+  init: RequestInit | undefined,
+) => RequestInit | undefined;
+
+/** Object owning the fetch function to wrap. */
+type FetchTarget = { fetch: typeof fetch };
+
+/** The wrapper installed on a target, with the fetch it replaced. */
+interface Installed {
+  original: typeof fetch;
+  hooks: Set<{ baseUrl: string; hook: McpdRequestHook }>;
+}
+
+const installed = new WeakMap<FetchTarget, Installed>();
+
+/**
+ * Replace a target's fetch with one that runs the hooks added for it.
+ */
+function install(target: FetchTarget): Installed {
+  const state: Installed = { original: target.fetch, hooks: new Set() };
+  target.fetch = (input, init) => {
+    const url = input instanceof Request ? input.url : String(input);
+    let options = init;
+    for (const { baseUrl, hook } of state.hooks) {
+      if (isMcpdUrl(url, baseUrl)) {
+        options = hook(input, options) ?? options;
+      }
+    }
+    return state.original(input, options);
+  };
+  installed.set(target, state);
+  return state;
+}
+
+/**
+ * Whether a URL is on mcpd: same origin as the base URL, and under its path.
+ *
+ * @param url - Request URL
+ * @param baseUrl - mcpd address
+ * @returns True if the request is aimed at mcpd
+ */
+export function isMcpdUrl(url: string, baseUrl: string): boolean {
+  if (!URL.canParse(url) || !URL.canParse(baseUrl)) {
+    return false;
+  }
+  const target = new URL(url);
+  const base = new URL(baseUrl);
+  const path = base.pathname.replace(/\/$/, "");
+  return (
+    target.origin === base.origin &&
+    (target.pathname === path || target.pathname.startsWith(`${path}/`))
+  );
+}
+
+/**
+ * Apply a hook to every fetch request aimed at mcpd.
+ *
+ * The first hook on a target installs the wrapper, and removing the last one
+ * restores the original fetch, so the target is patched at most once however
+ * many hooks are added.
+ *
+ * @param baseUrl - mcpd address; other requests are passed through unchanged
+ * @param hook - Adjusts the request options
+ * @param target - Object owning fetch (default: globalThis)
+ * @returns Function that removes the hook
+ */
+export function addMcpdRequestHook(
+  baseUrl: string,
+  hook: McpdRequestHook,
+  target: FetchTarget = globalThis,
+): () => void {
+  const state = installed.get(target) ?? install(target);
+  const entry = { baseUrl, hook };
+  state.hooks.add(entry);
+  return () => {
+    state.hooks.delete(entry);
+    if (state.hooks.size === 0 && installed.get(target) === state) {
+      target.fetch = state.original;
+      installed.delete(target);
+    }
+  };
+}
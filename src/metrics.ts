@@ -0,0 +1,426 @@
+/**
+ * Prometheus metrics for mcpd-proxy.
+ *
+ * When the proxy runs as a shared service, its operators need call volume,
+ * latency and error rates per server and per tool. The process-wide
+ * {@link metrics} collect them in memory, and an optional listener serves
+ * them in the Prometheus text exposition format.
+ */
+
+import {
+  createServer as createHttpServer,
+  type Server as HttpServer,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import type { HttpServerOptions, RunningHttpServer } from "./http.js";
+
+/** Path the metrics are served on. */
+export const METRICS_PATH = "/metrics";
+
+/** Content type of the Prometheus text exposition format. */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Default histogram buckets for latencies, in seconds. */
+export const DEFAULT_LATENCY_BUCKETS: readonly number[] = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+];
+
+/** Label values of one series, keyed by label name. */
+export type Labels = Record<string, string>;
+
+/**
+ * Escape a label value for the text format.
+ */
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * Render a sample value, spelling infinities the Prometheus way.
+ */
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return "+Inf";
+  }
+  return value === -Infinity ? "-Inf" : String(value);
+}
+
+/**
+ * A metric with one series per combination of label values.
+ */
+abstract class Metric<S> {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: readonly string[];
+  protected readonly series = new Map<string, { labels: Labels; state: S }>();
+
+  constructor(name: string, help: string, labelNames: readonly string[]) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  /** Metric type in the text format. */
+  abstract readonly type: "counter" | "gauge" | "histogram";
+
+  /** Sample lines of one series. */
+  protected abstract samples(labels: Labels, state: S): string[];
+
+  /** State of a new series. */
+  protected abstract initial(): S;
+
+  /**
+   * Key of the series for some label values. Labels are taken in the
+   * metric's label name order; missing ones are "".
+   */
+  protected key(labels: Labels): string {
+    return JSON.stringify(this.labelNames.map((name) => labels[name] ?? ""));
+  }
+
+  /**
+   * State of the series for some label values, created on first use.
+   */
+  protected state(labels: Labels): S {
+    const key = this.key(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      const values = JSON.parse(key) as string[];
+      entry = {
+        labels: Object.fromEntries(
+          this.labelNames.map((name, index) => [name, values[index]!]),
+        ),
+        state: this.initial(),
+      };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  /**
+   * Render a sample line.
+   */
+  protected line(name: string, labels: Labels, value: number): string {
+    const pairs = Object.entries(labels).map(
+      ([label, labelValue]) => `${label}="${escapeLabelValue(labelValue)}"`,
+    );
+    const selector = pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+    return `${name}${selector} ${formatValue(value)}`;
+  }
+
+  /**
+   * Render the metric in the text format.
+   */
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...[...this.series.values()].flatMap(({ labels, state }) =>
+        this.samples(labels, state),
+      ),
+    ].join("\n");
+  }
+}
+
+/**
+ * A value that only goes up, such as a number of calls.
+ */
+export class Counter extends Metric<{ value: number }> {
+  readonly type = "counter";
+
+  /**
+   * Add to the series for some label values.
+   *
+   * @param labels - Label values
+   * @param value - Amount to add (default: 1)
+   */
+  inc(labels: Labels = {}, value = 1): void {
+    this.state(labels).value += value;
+  }
+
+  /**
+   * Current value of a series (0 if it has not been incremented).
+   */
+  get(labels: Labels = {}): number {
+    return this.series.get(this.key(labels))?.state.value ?? 0;
+  }
+
+  protected initial() {
+    return { value: 0 };
+  }
+
+  protected samples(labels: Labels, state: { value: number }): string[] {
+    return [this.line(this.name, labels, state.value)];
+  }
+}
+
+/**
+ * A value that can go up and down, such as a catalog size.
+ */
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = "gauge";
+
+  /**
+   * Set the series for some label values.
+   *
+   * @param labels - Label values
+   * @param value - New value
+   */
+  set(labels: Labels, value: number): void {
+    this.state(labels).value = value;
+  }
+
+  /**
+   * Remove every series whose labels include the given values.
+   *
+   * @param labels - Label values to match (default: all series)
+   */
+  reset(labels: Labels = {}): void {
+    for (const [key, entry] of this.series) {
+      if (
+        Object.entries(labels).every(
+          ([name, value]) => entry.labels[name] === value,
+        )
+      ) {
+        this.series.delete(key);
+      }
+    }
+  }
+
+  protected initial() {
+    return { value: 0 };
+  }
+
+  protected samples(labels: Labels, state: { value: number }): string[] {
+    return [this.line(this.name, labels, state.value)];
+  }
+}
+
+/**
+ * State of one histogram series.
+ */
+interface HistogramState {
+  /** Observations per bucket (not cumulative), plus one for +Inf. */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * A distribution of observations, such as latencies, in cumulative buckets.
+ */
+export class Histogram extends Metric<HistogramState> {
+  readonly type = "histogram";
+  readonly buckets: readonly number[];
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[],
+    buckets: readonly number[] = DEFAULT_LATENCY_BUCKETS,
+  ) {
+    super(name, help, labelNames);
+    this.buckets = buckets;
+  }
+
+  /**
+   * Record an observation in the series for some label values.
+   *
+   * @param labels - Label values
+   * @param value - Observed value
+   */
+  observe(labels: Labels, value: number): void {
+    const state = this.state(labels);
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    state.buckets[index === -1 ? this.buckets.length : index]!++;
+    state.sum += value;
+    state.count++;
+  }
+
+  protected initial(): HistogramState {
+    return {
+      buckets: new Array<number>(this.buckets.length + 1).fill(0),
+      sum: 0,
+      count: 0,
+    };
+  }
+
+  protected samples(labels: Labels, state: HistogramState): string[] {
+    let cumulative = 0;
+    return [
+      ...[...this.buckets, Infinity].map((bound, index) => {
+        cumulative += state.buckets[index]!;
+        return this.line(
+          `${this.name}_bucket`,
+          { ...labels, le: formatValue(bound) },
+          cumulative,
+        );
+      }),
+      this.line(`${this.name}_sum`, labels, state.sum),
+      this.line(`${this.name}_count`, labels, state.count),
+    ];
+  }
+}
+
+/**
+ * The proxy's metrics.
+ */
+export class ProxyMetrics {
+  /** Tool calls by server, tool and result ("ok", "tool_error", "disabled" or an error class). */
+  readonly toolCalls = new Counter(
+    "mcpd_proxy_tool_calls_total",
+    "Tool calls by server, tool and result.",
+    ["server", "tool", "result"],
+  );
+
+  readonly toolCallDuration = new Histogram(
+    "mcpd_proxy_tool_call_duration_seconds",
+    "Tool call latency in seconds, including name resolution.",
+    ["server", "tool"],
+  );
+
+  /** Calls to mcpd by server (empty for daemon-wide calls), operation and result. */
+  readonly mcpdCalls = new Counter(
+    "mcpd_proxy_mcpd_calls_total",
+    "Calls to mcpd by server, operation and result.",
+    ["server", "operation", "result"],
+  );
+
+  /** Retries of calls to mcpd after failing to reach it. */
+  readonly mcpdRetries = new Counter(
+    "mcpd_proxy_mcpd_retries_total",
+    "Retries of calls to mcpd by server and operation.",
+    ["server", "operation"],
+  );
+
+  readonly mcpdCallDuration = new Histogram(
+    "mcpd_proxy_mcpd_call_duration_seconds",
+    "Latency of calls to mcpd in seconds.",
+    ["server", "operation"],
+  );
+
+  readonly aggregationDuration = new Histogram(
+    "mcpd_proxy_aggregation_duration_seconds",
+    "Time to aggregate a catalog from every server, in seconds.",
+    ["catalog"],
+  );
+
+  readonly catalogItems = new Gauge(
+    "mcpd_proxy_catalog_items",
+    "Items in the latest aggregated catalog, by server.",
+    ["catalog", "server"],
+  );
+
+  /** Catalog requests by catalog and result ("hit", "stale_hit" or "miss"). */
+  readonly catalogCacheRequests = new Counter(
+    "mcpd_proxy_catalog_cache_requests_total",
+    "Catalog cache requests by catalog and result.",
+    ["catalog", "result"],
+  );
+
+  /** Catalog loads from mcpd by catalog and result ("ok" or "error"). */
+  readonly catalogCacheRefreshes = new Counter(
+    "mcpd_proxy_catalog_cache_refreshes_total",
+    "Catalog cache loads from mcpd by catalog and result.",
+    ["catalog", "result"],
+  );
+
+  /** When each cached catalog was last loaded; its age is time() minus this. */
+  readonly catalogCacheLoaded = new Gauge(
+    "mcpd_proxy_catalog_cache_loaded_timestamp_seconds",
+    "Unix time of the latest successful catalog load.",
+    ["catalog"],
+  );
+
+  /**
+   * Record the per-server sizes of a freshly aggregated catalog, dropping
+   * servers that no longer contribute.
+   *
+   * @param catalog - Catalog kind
+   * @param items - Aggregated items with their owning server
+   */
+  setCatalogItems(catalog: string, items: Array<{ _serverName: string }>) {
+    const counts = new Map<string, number>();
+    for (const { _serverName } of items) {
+      counts.set(_serverName, (counts.get(_serverName) ?? 0) + 1);
+    }
+
+    this.catalogItems.reset({ catalog });
+    for (const [server, count] of counts) {
+      this.catalogItems.set({ catalog, server }, count);
+    }
+  }
+
+  /**
+   * Render every metric in the Prometheus text format.
+   */
+  render(): string {
+    return `${[
+      this.toolCalls,
+      this.toolCallDuration,
+      this.mcpdCalls,
+      this.mcpdRetries,
+      this.mcpdCallDuration,
+      this.aggregationDuration,
+      this.catalogItems,
+      this.catalogCacheRequests,
+      this.catalogCacheRefreshes,
+      this.catalogCacheLoaded,
+    ]
+      .map((metric) => metric.render())
+      .join("\n")}\n`;
+  }
+}
+
+/** Process-wide metrics. */
+export const metrics = new ProxyMetrics();
+
+/**
+ * Start a listener serving metrics at {@link METRICS_PATH}.
+ *
+ * @param options - Host and port to listen on
+ * @param render - Produces the metrics in the text format
+ * @returns Running listener with its bound address
+ */
+export async function startMetricsServer(
+  options: HttpServerOptions,
+  render: () => string = () => metrics.render(),
+): Promise<RunningHttpServer> {
+  const httpServer: HttpServer = createHttpServer((req, res) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+    if (pathname !== METRICS_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.writeHead(405, { Allow: "GET, HEAD" }).end();
+      return;
+    }
+
+    const body = render();
+    res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE });
+    res.end(req.method === "HEAD" ? undefined : body);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return {
+    httpServer,
+    address: httpServer.address() as AddressInfo,
+    async close() {
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve, reject) =>
+        httpServer.close((error) => (error ? reject(error) : resolve())),
+      );
+    },
+  };
+}
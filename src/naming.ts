@@ -0,0 +1,216 @@
+/**
+ * Namespaced naming for mcpd-proxy.
+ *
+ * Tools and prompts from every server share one namespace, so each name is
+ * prefixed with its server (e.g., "github__create_issue"). The prefix uses a
+ * configurable separator or a per-server alias, names can be sanitized for
+ * clients with strict naming rules, and a name table maps exposed names back
+ * to their server so requests are routed by lookup.
+ */
+
+import { createHash } from "node:crypto";
+import { logger } from "./logger.js";
+
+/** Default separator between server name and item name. */
+export const DEFAULT_SEPARATOR = "__";
+
+/** Default maximum tool name length accepted by strict clients. */
+export const DEFAULT_MAX_NAME_LENGTH = 64;
+
+/** Hex characters of the hash suffix appended to truncated names. */
+const HASH_SUFFIX_LENGTH = 8;
+
+/** Shortest maximum length that leaves room for a truncated name and hash. */
+export const MIN_MAX_NAME_LENGTH = HASH_SUFFIX_LENGTH + 2;
+
+/** Characters outside the set strict clients accept in tool names. */
+const INVALID_NAME_CHARS = /[^a-zA-Z0-9_-]/g;
+
+/**
+ * Options controlling how namespaced names are built.
+ */
+export interface NamingOptions {
+  /** Separator between server name and item name (default: "__"). */
+  separator?: string;
+
+  /** Full prefixes replacing "server + separator" per server (e.g., github: "gh_"). */
+  serverAliases?: Record<string, string>;
+}
+
+/**
+ * Create a function returning the name prefix for a server.
+ *
+ * @param options - Separator and per-server aliases
+ * @returns Function mapping a server name to its prefix
+ */
+export function createPrefixer(
+  options: NamingOptions = {},
+): (serverName: string) => string {
+  const separator = options.separator ?? DEFAULT_SEPARATOR;
+  const aliases = options.serverAliases ?? {};
+
+  return (serverName) =>
+    Object.hasOwn(aliases, serverName)
+      ? aliases[serverName]
+      : `${serverName}${separator}`;
+}
+
+/**
+ * Build the canonical "server__name" form of an item's name, independent of
+ * the configured separator, aliases and sanitization. Tool filters match
+ * against it so their patterns keep working when exposed names change.
+ *
+ * @param serverName - mcpd server name
+ * @param name - Item name on that server
+ * @returns Canonical name (e.g., "github__create_issue")
+ */
+export function canonicalName(serverName: string, name: string): string {
+  return `${serverName}${DEFAULT_SEPARATOR}${name}`;
+}
+
+/**
+ * Rewrite a name so strict clients accept it.
+ *
+ * Characters outside `[a-zA-Z0-9_-]` become "_". Names longer than
+ * `maxLength` are truncated and suffixed with a hash of the original name,
+ * so the result is stable across runs and distinct names stay distinct.
+ *
+ * @param name - Name to sanitize
+ * @param maxLength - Maximum length of the result (default: 64)
+ * @returns Sanitized name
+ */
+export function sanitizeName(
+  name: string,
+  maxLength: number = DEFAULT_MAX_NAME_LENGTH,
+): string {
+  const sanitized = name.replace(INVALID_NAME_CHARS, "_");
+  if (sanitized.length <= maxLength) {
+    return sanitized;
+  }
+
+  const hash = createHash("sha256")
+    .update(name)
+    .digest("hex")
+    .slice(0, HASH_SUFFIX_LENGTH);
+  return `${sanitized.slice(0, maxLength - HASH_SUFFIX_LENGTH - 1)}_${hash}`;
+}
+
+/**
+ * Where an exposed name routes to.
+ */
+export interface NameOrigin {
+  /** mcpd server name. */
+  server: string;
+
+  /** Item name on that server. */
+  name: string;
+}
+
+/**
+ * Two upstream items that were given the same exposed name.
+ */
+export interface NameCollision {
+  /** The exposed name both items map to. */
+  name: string;
+
+  /** The item that keeps the name. */
+  kept: NameOrigin;
+
+  /** The item hidden because of the collision. */
+  dropped: NameOrigin;
+}
+
+/**
+ * Mapping from exposed names to upstream server and item names.
+ *
+ * The table is rebuilt from each aggregated catalog. When two items map to
+ * the same exposed name the first one wins, the other is hidden, and the
+ * collision is recorded and reported once on stderr.
+ */
+export class NameTable {
+  readonly #kind: string;
+  #entries = new Map<string, NameOrigin>();
+  #collisions: NameCollision[] = [];
+  #reported = new Set<string>();
+
+  /**
+   * @param kind - Item kind for log messages (e.g., "tool", "prompt")
+   */
+  constructor(kind: string) {
+    this.#kind = kind;
+  }
+
+  /**
+   * Replace the table with a freshly aggregated catalog.
+   *
+   * @param items - Aggregated items with exposed and original names
+   * @param retain - Keeps a previous entry missing from the catalog, e.g.
+   *   while its server is left out, as long as its name is still free
+   * @returns The items that kept their names, in catalog order
+   */
+  rebuild<
+    T extends { name: string; _serverName: string; _originalName: string },
+  >(items: T[], retain?: (origin: NameOrigin) => boolean): T[] {
+    const entries = new Map<string, NameOrigin>();
+    const collisions: NameCollision[] = [];
+    const kept: T[] = [];
+
+    for (const item of items) {
+      const origin = { server: item._serverName, name: item._originalName };
+      const existing = entries.get(item.name);
+
+      if (existing) {
+        collisions.push({ name: item.name, kept: existing, dropped: origin });
+        this.#report(item.name, existing, origin);
+        continue;
+      }
+
+      entries.set(item.name, origin);
+      kept.push(item);
+    }
+
+    if (retain) {
+      for (const [name, origin] of this.#entries) {
+        if (!entries.has(name) && retain(origin)) {
+          entries.set(name, origin);
+        }
+      }
+    }
+
+    this.#entries = entries;
+    this.#collisions = collisions;
+    return kept;
+  }
+
+  /**
+   * Look up the server and item an exposed name routes to.
+   *
+   * @param name - Exposed name
+   * @returns Origin, or undefined if the name is not in the table
+   */
+  resolve(name: string): NameOrigin | undefined {
+    return this.#entries.get(name);
+  }
+
+  /**
+   * Collisions found by the most recent rebuild.
+   */
+  get collisions(): NameCollision[] {
+    return [...this.#collisions];
+  }
+
+  #report(name: string, kept: NameOrigin, dropped: NameOrigin): void {
+    const key = `${name}\0${kept.server}\0${dropped.server}`;
+    if (this.#reported.has(key)) {
+      return;
+    }
+    this.#reported.add(key);
+
+    logger.warning(
+      `Name collision for ${this.#kind} '${name}': ` +
+        `'${dropped.name}' from server '${dropped.server}' conflicts with ` +
+        `'${kept.name}' from server '${kept.server}' and is hidden`,
+      { kind: this.#kind, name, kept, dropped },
+    );
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Cursor-based pagination for mcpd-proxy list endpoints.
+ *
+ * Items are sorted by a unique key and each cursor records the last key
+ * returned, so the next page starts after it. Unlike offsets, such cursors
+ * stay valid when servers appear or disappear between pages (e.g., after a
+ * health change): remaining items are neither skipped nor repeated.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+/** Default number of items per list page. */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * One page of a list result.
+ */
+export interface Page<T> {
+  /** Items on this page. */
+  items: T[];
+
+  /** Cursor for the next page; undefined on the last page. */
+  nextCursor?: string;
+}
+
+/**
+ * Options for {@link paginate}.
+ */
+export interface PaginateOptions<T> {
+  /** List name, so cursors from one list are rejected by another. */
+  list: string;
+
+  /** Returns the unique sort key of an item (e.g., its name or URI). */
+  key: (item: T) => string;
+
+  /** Maximum number of items per page. */
+  pageSize: number;
+
+  /** Cursor from the previous page, if any. */
+  cursor?: string;
+}
+
+/**
+ * Encode an opaque cursor.
+ *
+ * @param list - List the cursor belongs to
+ * @param after - Key of the last item returned
+ * @returns Opaque cursor string
+ */
+export function encodeCursor(list: string, after: string): string {
+  return Buffer.from(JSON.stringify({ list, after })).toString("base64url");
+}
+
+/**
+ * Decode an opaque cursor.
+ *
+ * @param list - List the cursor is expected to belong to
+ * @param cursor - Cursor from the client
+ * @returns Key of the last item returned on the previous page
+ * @throws McpError with InvalidParams if the cursor is malformed or belongs
+ *   to another list
+ */
+export function decodeCursor(list: string, cursor: string): string {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    decoded = undefined;
+  }
+
+  const { list: cursorList, after } = (decoded ?? {}) as {
+    list?: unknown;
+    after?: unknown;
+  };
+  if (cursorList !== list || typeof after !== "string") {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+  }
+  return after;
+}
+
+/**
+ * Return one page of items in stable key order.
+ *
+ * @param items - All items of the list
+ * @param options - List name, sort key, page size and cursor
+ * @returns Items after the cursor, up to the page size, and the next cursor
+ * @throws McpError with InvalidParams if the cursor is invalid
+ */
+export function paginate<T>(items: T[], options: PaginateOptions<T>): Page<T> {
+  const { list, key, pageSize, cursor } = options;
+  const after = cursor === undefined ? undefined : decodeCursor(list, cursor);
+
+  // Compare by code unit rather than locale so the order never varies.
+  const sorted = items
+    .map((item) => ({ item, key: key(item) }))
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  const remaining =
+    after === undefined ? sorted : sorted.filter((entry) => entry.key > after);
+
+  const page = remaining.slice(0, pageSize);
+  return {
+    items: page.map((entry) => entry.item),
+    nextCursor:
+      remaining.length > pageSize
+        ? encodeCursor(list, page[page.length - 1].key)
+        : undefined,
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Progress notifications for long-running mcpd-proxy tool calls.
+ *
+ * mcpd runs a tool call as a single HTTP request and response, with no
+ * progress reported while the tool runs. So that clients which asked for
+ * progress (by sending a progressToken) see the call is still alive, and can
+ * keep extending their request timeout, the proxy sends a heartbeat
+ * notifications/progress until the call finishes.
+ *
+ * Heartbeats are all the proxy sends: the mcpd SDK has no progress hook, so
+ * progress reported by upstream servers is never relayed.
+ */
+
+import type {
+  ProgressNotification,
+  ProgressToken,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/** Default interval between heartbeat progress notifications in milliseconds. */
+export const DEFAULT_PROGRESS_INTERVAL_MS = 10_000;
+
+/**
+ * Options for {@link startProgressHeartbeat}.
+ */
+export interface ProgressHeartbeatOptions {
+  /** Delay between heartbeats in milliseconds; 0 disables them. */
+  intervalMs: number;
+
+  /** Message of a heartbeat, given the time since the heartbeat started. */
+  message: (elapsedMs: number) => string;
+
+  /** Sends a notification to the client. */
+  send: (notification: ProgressNotification) => Promise<void>;
+
+  /** Called when sending a heartbeat fails. */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Send notifications/progress for a request every intervalMs until stopped.
+ *
+ * Heartbeats count up from 1 without a total, since mcpd gives no hint of how
+ * long a call will take. Nothing is sent if the request has no progressToken.
+ *
+ * @param progressToken - Token from the request's _meta, if the client sent one
+ * @param options - Interval, message and notification sender
+ * @returns Function that stops the heartbeat
+ */
+export function startProgressHeartbeat(
+  progressToken: ProgressToken | undefined,
+  options: ProgressHeartbeatOptions,
+): () => void {
+  if (progressToken === undefined || options.intervalMs <= 0) {
+    return () => {};
+  }
+
+  const start = performance.now();
+  let progress = 0;
+  let timer: NodeJS.Timeout | undefined;
+
+  const schedule = () => {
+    timer = setTimeout(() => {
+      progress++;
+      options
+        .send({
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress,
+            message: options.message(performance.now() - start),
+          },
+        })
+        .catch((error: unknown) => options.onError?.(error));
+      schedule();
+    }, options.intervalMs);
+    // A pending heartbeat should not keep the process alive.
+    timer.unref();
+  };
+  schedule();
+
+  return () => clearTimeout(timer);
+}
@@ -0,0 +1,61 @@
+/**
+ * Protocol version negotiation for mcpd-proxy.
+ *
+ * The proxy answers initialize with the client's requested version when the
+ * MCP SDK supports it, and with the latest supported version otherwise (per
+ * the MCP lifecycle spec). Features added in later protocol revisions are
+ * only sent to clients that negotiated a version that defines them.
+ */
+
+import {
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/** Protocol revision that added tool annotations. */
+const TOOL_ANNOTATIONS_VERSION = "2025-03-26";
+
+/** Protocol revision that added structured tool output and title fields. */
+const STRUCTURED_CONTENT_VERSION = "2025-06-18";
+
+/**
+ * Protocol features that depend on the negotiated version.
+ */
+export interface ProtocolFeatures {
+  /** Tool `annotations` (readOnlyHint, destructiveHint, ...). */
+  toolAnnotations: boolean;
+
+  /** Tool `outputSchema` and result `structuredContent`. */
+  structuredContent: boolean;
+
+  /** Human-readable `title` fields and tool `_meta`. */
+  titles: boolean;
+}
+
+/**
+ * Pick the protocol version for a session.
+ *
+ * @param requested - Version requested by the client in initialize
+ * @returns The requested version if supported, else the latest version
+ */
+export function negotiateProtocolVersion(requested: string): string {
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+    ? requested
+    : LATEST_PROTOCOL_VERSION;
+}
+
+/**
+ * Determine which version-dependent features a session may use.
+ *
+ * Protocol versions are ISO dates, so they compare chronologically as strings.
+ *
+ * @param version - Negotiated protocol version
+ * @returns Feature flags for the version
+ */
+export function getProtocolFeatures(version: string): ProtocolFeatures {
+  return {
+    toolAnnotations: version >= TOOL_ANNOTATIONS_VERSION,
+    structuredContent: version >= STRUCTURED_CONTENT_VERSION,
+    titles: version >= STRUCTURED_CONTENT_VERSION,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Tool result conversion for mcpd-proxy.
+ *
+ * Upstream MCP servers return results that mcpd relays as JSON. When a result
+ * is already a valid MCP CallToolResult it is passed through unchanged
+ * (images, embedded resources, structuredContent, isError); anything else is
+ * serialized to text.
+ */
+
+import {
+  CallToolResultSchema,
+  type CallToolResult,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Check whether a value is a plain JSON object (not null or an array).
+ *
+ * @param value - Value to check
+ * @returns True for plain objects
+ */
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse an upstream result as an MCP CallToolResult.
+ *
+ * The result must carry an explicit `content` array; the MCP schema would
+ * otherwise default it and accept arbitrary objects.
+ *
+ * @param result - Raw result from mcpd
+ * @returns The parsed result, or undefined if it is not MCP-shaped
+ */
+export function parseCallToolResult(
+  result: unknown,
+): CallToolResult | undefined {
+  if (!isJsonObject(result) || !Array.isArray(result.content)) {
+    return undefined;
+  }
+
+  const parsed = CallToolResultSchema.safeParse(result);
+  return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * Extract structured content from a result's single JSON text block.
+ *
+ * @param content - Result content blocks
+ * @returns Parsed JSON object, or undefined if there is none
+ */
+function structuredFromText(
+  content: CallToolResult["content"],
+): Record<string, unknown> | undefined {
+  if (content.length !== 1 || content[0].type !== "text") {
+    return undefined;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(content[0].text);
+    return isJsonObject(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Options for {@link toCallToolResult}.
+ */
+export interface ToolResultOptions {
+  /** Whether the tool declares an outputSchema. */
+  hasOutputSchema?: boolean;
+
+  /**
+   * Whether the client's protocol version supports structuredContent
+   * (default: true). When false, structuredContent is dropped and only the
+   * content blocks are returned.
+   */
+  structuredContent?: boolean;
+}
+
+/**
+ * Convert an upstream tool result into an MCP CallToolResult.
+ *
+ * - MCP-shaped results keep their content blocks, isError flag and
+ *   structuredContent.
+ * - When the tool declares an outputSchema, structuredContent is populated
+ *   from a JSON object result (or a single JSON text block) if missing.
+ * - Other payloads fall back to a single pretty-printed JSON text block.
+ *
+ * @param result - Raw result from mcpd
+ * @param options - Output schema and client support for structured content
+ * @returns MCP CallToolResult
+ */
+export function toCallToolResult(
+  result: unknown,
+  options: ToolResultOptions = {},
+): CallToolResult {
+  const { hasOutputSchema = false, structuredContent: supported = true } =
+    options;
+  const mcpResult = parseCallToolResult(result);
+
+  if (mcpResult) {
+    if (!supported) {
+      return withoutStructuredContent(mcpResult);
+    }
+    if (hasOutputSchema && mcpResult.structuredContent === undefined) {
+      const structuredContent = structuredFromText(mcpResult.content);
+      if (structuredContent) {
+        return { ...mcpResult, structuredContent };
+      }
+    }
+    return mcpResult;
+  }
+
+  const textResult: CallToolResult = {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+
+  // Structured results also carry their serialized JSON as text for
+  // clients that don't read structuredContent.
+  if (supported && hasOutputSchema && isJsonObject(result)) {
+    return { ...textResult, structuredContent: result };
+  }
+
+  return textResult;
+}
+
+/**
+ * Remove structuredContent from a result for clients that predate it.
+ *
+ * @param result - MCP CallToolResult
+ * @returns Copy of the result without structuredContent
+ */
+function withoutStructuredContent(result: CallToolResult): CallToolResult {
+  const copy = { ...result };
+  delete copy.structuredContent;
+  return copy;
+}
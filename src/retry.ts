@@ -0,0 +1,134 @@
+/**
+ * Retries with exponential backoff for mcpd-proxy calls to mcpd.
+ *
+ * A brief mcpd restart makes requests fail with ConnectionError. Operations
+ * that are safe to repeat (lists, reads, prompt generation, and tool calls
+ * whose annotations declare them idempotent or read-only) are retried after
+ * a growing, jittered delay instead of failing outright.
+ */
+
+import { ConnectionError } from "@mozilla-ai/mcpd";
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import type { Config } from "./config.js";
+
+/** Default number of retries after a failed attempt. */
+export const DEFAULT_RETRIES = 2;
+
+/** Default delay before the first retry in milliseconds. */
+export const DEFAULT_RETRY_BASE_DELAY_MS = 200;
+
+/** Default cap on the delay between retries in milliseconds. */
+export const DEFAULT_RETRY_MAX_DELAY_MS = 2_000;
+
+/**
+ * A retry about to happen.
+ */
+export interface RetryAttempt {
+  /** Number of this retry, from 1. */
+  retry: number;
+
+  /** Delay before the retry in milliseconds. */
+  delayMs: number;
+
+  /** Error of the failed attempt. */
+  error: unknown;
+}
+
+/**
+ * How failed calls are retried.
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt; 0 disables retrying. */
+  retries: number;
+
+  /** Delay before the first retry in milliseconds, doubled for each one after. */
+  baseDelayMs: number;
+
+  /** Cap on the delay in milliseconds. */
+  maxDelayMs: number;
+
+  /** Random source for jitter, for tests (default: Math.random). */
+  random?: () => number;
+}
+
+/**
+ * Retry options from configuration.
+ *
+ * @param config - Proxy configuration
+ * @returns Retry options
+ */
+export function retryOptionsFromConfig(
+  config: Pick<Config, "retries" | "retryBaseDelayMs" | "retryMaxDelayMs">,
+): RetryOptions {
+  return {
+    retries: config.retries ?? DEFAULT_RETRIES,
+    baseDelayMs: config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+    maxDelayMs: config.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS,
+  };
+}
+
+/**
+ * Whether a failed call may succeed if repeated. Only failures to reach mcpd
+ * are; errors mcpd reported and timeouts (which include cancellations) are not.
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ConnectionError;
+}
+
+/**
+ * Whether a tool's annotations declare that calling it twice is safe.
+ *
+ * @param annotations - Tool annotations
+ * @returns True for idempotent or read-only tools
+ */
+export function isIdempotentTool(annotations?: ToolAnnotations): boolean {
+  return (
+    annotations?.idempotentHint === true || annotations?.readOnlyHint === true
+  );
+}
+
+/**
+ * Delay before a retry: baseDelayMs doubled per earlier retry, capped at
+ * maxDelayMs, with the upper half jittered so clients restarting together
+ * do not retry in lockstep.
+ *
+ * @param retry - Number of the retry, from 1
+ * @param options - Delays and random source
+ * @returns Delay in milliseconds
+ */
+export function backoffDelay(
+  retry: number,
+  options: Pick<RetryOptions, "baseDelayMs" | "maxDelayMs" | "random">,
+): number {
+  const { baseDelayMs, maxDelayMs, random = Math.random } = options;
+  const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+  return Math.round(cap / 2 + (random() * cap) / 2);
+}
+
+/**
+ * Run a call, retrying it after retryable errors.
+ *
+ * @param call - Performs the call
+ * @param options - Retry count and delays
+ * @param onRetry - Called before each retry
+ * @returns Result of the first successful attempt
+ * @throws The error of the last attempt, or the first non-retryable one
+ */
+export async function withRetry<T>(
+  call: () => Promise<T>,
+  options: RetryOptions,
+  onRetry?: (attempt: RetryAttempt) => void,
+): Promise<T> {
+  for (let retry = 1; ; retry++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (retry > options.retries || !isRetryableError(error)) {
+        throw error;
+      }
+      const delayMs = backoffDelay(retry, options);
+      onRetry?.({ retry, delayMs, error });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -5,9 +5,14 @@
  * exposing all mcpd-managed MCP servers through a unified interface.
  */
 
+import { randomUUID } from "node:crypto";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
 import {
+  LATEST_PROTOCOL_VERSION,
   CallToolRequestSchema,
+  CompleteRequestSchema,
   GetPromptRequestSchema,
   InitializeRequestSchema,
   ListPromptsRequestSchema,
@@ -16,6 +21,11 @@ import {
   ListToolsRequestSchema,
   PingRequestSchema,
   ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ServerNotification,
+  type ServerRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import {
   McpdClient,
@@ -27,32 +37,129 @@ import {
   AuthenticationError,
   TimeoutError,
   PipelineError,
+  type Prompt,
+  type Resource,
+  type ResourceTemplate,
+  type Tool,
+  type ToolAnnotations,
 } from "@mozilla-ai/mcpd";
+import {
+  completeFromValues,
+  enumValues,
+  promptArgumentSchema,
+} from "./completions.js";
+import {
+  CATALOG_CACHE_KINDS,
+  CatalogCache,
+  DEFAULT_CATALOG_TTL_MS,
+  type CatalogCacheKind,
+  type CatalogCacheResult,
+} from "./catalogCache.js";
+import {
+  callTimeoutFor,
+  isCallCancelled,
+  mcpdRequestTimeout,
+  withAbortSignal,
+} from "./cancellation.js";
+import {
+  CircuitBreakers,
+  CircuitOpenError,
+  DEFAULT_CIRCUIT_BREAKER_COOLDOWN_MS,
+  DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+} from "./circuitBreaker.js";
 import type { Config } from "./config.js";
+import { Diagnostics, DIAGNOSTICS_RESOURCE_URI } from "./diagnostics.js";
+import {
+  DEFAULT_SERVER_TIMEOUT_MS,
+  fanOut,
+  type FanOutOptions,
+  type SkippedServer,
+} from "./fanout.js";
+import { createNameFilter, isDestructiveTool } from "./filters.js";
+import { metrics } from "./metrics.js";
+import {
+  DEFAULT_LOG_LEVEL,
+  isLevelEnabled,
+  logger,
+  LOGGER_NAME,
+  serializeFields,
+  type LogLevel,
+  type LogRecord,
+} from "./logger.js";
+import {
+  canonicalName,
+  createPrefixer,
+  DEFAULT_SEPARATOR,
+  NameTable,
+  sanitizeName,
+  type NameOrigin,
+} from "./naming.js";
+import { DEFAULT_PAGE_SIZE, paginate } from "./pagination.js";
+import {
+  DEFAULT_PROGRESS_INTERVAL_MS,
+  startProgressHeartbeat,
+} from "./progress.js";
+import { getProtocolFeatures, negotiateProtocolVersion } from "./protocol.js";
+import { toCallToolResult } from "./results.js";
+import {
+  isIdempotentTool,
+  retryOptionsFromConfig,
+  withRetry,
+  type RetryOptions,
+} from "./retry.js";
+import {
+  buildProxyStatus,
+  STATUS_RESOURCE_URI,
+  STATUS_TOOL,
+  STATUS_TOOL_NAME,
+  statusResourceContents,
+  statusSnapshot,
+  statusToolResult,
+  type ProxyStatusInput,
+} from "./status.js";
+import {
+  DEFAULT_SUBSCRIPTION_INTERVAL_MS,
+  ResourceSubscriptions,
+} from "./subscriptions.js";
+import { parseTraceparent, TRACEPARENT_HEADER, tracer } from "./tracing.js";
+import {
+  CatalogWatcher,
+  DEFAULT_WATCH_INTERVAL_MS,
+  type CatalogKind,
+} from "./watcher.js";
 import pkg from "../package.json" with { type: "json" };
 
+/** Extra argument the MCP SDK passes to request handlers. */
+type HandlerExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
 /**
  * Parse a prefixed name in the format "server__name" into its components.
  *
+ * Splits on the first separator, so it cannot handle server names that
+ * contain the separator or aliased prefixes. Request routing uses the
+ * server's name table instead (see {@link NameTable}).
+ *
  * @param fullName - The full name (e.g., "time__get_current_time")
  * @param type - Type of item for error messages (e.g., "tool", "prompt")
+ * @param separator - Separator between server and name (default: "__")
  * @returns Object with server and name components
  * @throws Error if the name format is invalid
  */
 export function parsePrefixedName(
   fullName: string,
   type: "tool" | "prompt",
+  separator: string = DEFAULT_SEPARATOR,
 ): { server: string; name: string } {
-  const parts = fullName.split("__");
+  const parts = fullName.split(separator);
 
   if (parts.length < 2) {
     throw new Error(
-      `Invalid ${type} name format: ${fullName}. Expected format: server__${type}_name`,
+      `Invalid ${type} name format: ${fullName}. Expected format: server${separator}${type}_name`,
     );
   }
 
   const server = parts[0];
-  const name = parts.slice(1).join("__");
+  const name = parts.slice(1).join(separator);
 
   return { server, name };
 }
@@ -84,8 +191,10 @@ export function parseResourceUri(uri: string): {
   }
 
   const server = url.hostname;
-  const pathname = url.pathname;
-  const originalUri = pathname.startsWith("/") ? pathname.slice(1) : pathname;
+  // Take the upstream URI from the raw string: URL parsing would split off
+  // its query and fragment and normalize "." and ".." segments.
+  const pathStart = uri.indexOf("/", uri.indexOf("//") + 2);
+  const originalUri = pathStart === -1 ? "" : uri.slice(pathStart + 1);
 
   if (!server || !originalUri) {
     throw new Error(
@@ -96,62 +205,257 @@ export function parseResourceUri(uri: string): {
   return { server, originalUri };
 }
 
+/**
+ * Build the proxied URI prefix for a server's resources and templates.
+ *
+ * @param serverName - mcpd server name
+ * @returns Prefix (e.g., "mcpd://time/")
+ */
+export function resourceUriPrefix(serverName: string): string {
+  return `mcpd://${serverName}/`;
+}
+
 /**
  * Get healthy servers from mcpd.
  * Fetches all servers and filters by health status.
  *
  * @param client - McpdClient instance
  * @param serverNames - Optional array of server names to filter. If not provided, gets all servers.
+ * @param options - Retry policy and circuit breakers for the calls to mcpd
  * @returns Array of healthy server names
  */
 export async function getHealthyServers(
   client: McpdClient,
   serverNames?: string[],
+  options: CallMcpdOptions = {},
 ): Promise<string[]> {
   // Get server list if not provided.
-  const servers = serverNames ?? (await client.listServers());
+  const servers =
+    serverNames ??
+    (await callMcpd("listServers", {}, () => client.listServers(), options));
 
   // Get health status for all servers.
-  const healthMap = await client.getServerHealth();
+  const healthMap = await callMcpd(
+    "getServerHealth",
+    {},
+    () => client.getServerHealth(),
+    options,
+  );
 
-  // Filter to only healthy servers.
+  // Filter to only healthy servers whose circuit is not open.
   return servers.filter((name) => {
     const health = healthMap[name];
-    return health && health.status === "ok";
+    return health && health.status === "ok" && !options.breakers?.isOpen(name);
   });
 }
 
+/**
+ * Milliseconds elapsed since a performance.now() timestamp, rounded.
+ */
+function elapsedMs(start: number): number {
+  return Math.round(performance.now() - start);
+}
+
+/**
+ * Options for {@link callMcpd}.
+ */
+export interface CallMcpdOptions {
+  /** Retry policy for failures to reach mcpd; the call is made once if unset. */
+  retry?: RetryOptions;
+
+  /** Records each retry, e.g. for the diagnostics resource. */
+  diagnostics?: Diagnostics;
+
+  /** Circuit breakers that admit and record calls about a server. */
+  breakers?: CircuitBreakers;
+}
+
+/**
+ * Call mcpd, tracing the call as a client span and logging its latency and
+ * outcome at debug level. Failures are rethrown for the caller to handle,
+ * after any retries allowed by options.retry; each retry is logged as a
+ * warning and counted. Calls about a server whose circuit is open fail fast
+ * with CircuitOpenError, and the outcome of other calls about a server is
+ * recorded in its circuit.
+ *
+ * @param operation - mcpd SDK method (e.g., "callTool")
+ * @param target - Upstream server and tool the call is about, if any
+ * @param call - Performs the call
+ * @param options - Retry policy, where to record retries, and circuit breakers
+ * @returns Result of the call
+ */
+export async function callMcpd<T>(
+  operation: string,
+  target: { server?: string; tool?: string },
+  call: () => Promise<T>,
+  options: CallMcpdOptions = {},
+): Promise<T> {
+  const { server, tool } = target;
+  const where = server === undefined ? "" : ` on '${server}'`;
+  const attributes = {
+    "mcpd.operation": operation,
+    ...(server !== undefined && { "mcpd.server.name": server }),
+    ...(tool !== undefined && { "mcpd.tool.name": tool }),
+  };
+
+  const labels = { server: server ?? "", operation };
+
+  return tracer.withSpan(
+    `mcpd ${operation}`,
+    { kind: "client", attributes },
+    async (span) => {
+      const start = performance.now();
+      let admitted = false;
+      try {
+        if (server !== undefined) {
+          options.breakers?.admit(server);
+        }
+        admitted = true;
+        const result = await (options.retry
+          ? withRetry(call, options.retry, ({ retry, delayMs, error }) => {
+              logger.warning(
+                `mcpd ${operation}${where} failed, retrying in ${delayMs}ms ` +
+                  `(retry ${retry} of ${options.retry!.retries})`,
+                { ...target, operation, retry, delayMs, error },
+              );
+              span?.setAttributes({ "mcpd.retries": retry });
+              metrics.mcpdRetries.inc(labels);
+              options.diagnostics?.recordRetry(operation, server, error);
+            })
+          : call());
+        if (server !== undefined) {
+          options.breakers?.record(server);
+        }
+        logger.debug(`mcpd ${operation}${where} succeeded`, {
+          ...target,
+          operation,
+          durationMs: elapsedMs(start),
+        });
+        metrics.mcpdCalls.inc({ ...labels, result: "ok" });
+        return result;
+      } catch (error) {
+        if (admitted && server !== undefined) {
+          // A cancelled call says nothing about the server's health.
+          if (isCallCancelled()) {
+            options.breakers?.release(server);
+          } else {
+            options.breakers?.record(server, error);
+          }
+        }
+        logger.debug(`mcpd ${operation}${where} failed`, {
+          ...target,
+          operation,
+          durationMs: elapsedMs(start),
+          error,
+        });
+        metrics.mcpdCalls.inc({
+          ...labels,
+          result: error instanceof Error ? error.name : "Error",
+        });
+        throw error;
+      } finally {
+        metrics.mcpdCallDuration.observe(
+          labels,
+          (performance.now() - start) / 1000,
+        );
+      }
+    },
+  );
+}
+
+/** Errors the tools/call handler reports with a specific message. */
+const TOOL_CALL_ERRORS = [
+  ToolNotFoundError,
+  ToolExecutionError,
+  ServerNotFoundError,
+  ServerUnhealthyError,
+  ConnectionError,
+  AuthenticationError,
+  TimeoutError,
+  PipelineError,
+];
+
+/**
+ * Classify a failed tool call for metrics: the class of the errors the
+ * tools/call handler maps to a specific message, or "Error" for the rest.
+ *
+ * @param error - Error the call failed with
+ * @returns Error class name
+ */
+function toolCallErrorClass(error: unknown): string {
+  return TOOL_CALL_ERRORS.some((errorClass) => error instanceof errorClass)
+    ? (error as Error).name
+    : "Error";
+}
+
+/**
+ * Options shared by the aggregate functions.
+ */
+export interface AggregateOptions<T> extends FanOutOptions<T[]> {
+  /**
+   * Called after each aggregation with the servers whose fresh items are
+   * missing (empty when every server answered in time).
+   */
+  onSkipped?: (skipped: SkippedServer[]) => void;
+
+  /** Retry policy and circuit breakers for the calls to mcpd. */
+  mcpdOptions?: CallMcpdOptions;
+}
+
 /**
  * Aggregate tools from all healthy servers with namespaced names.
  *
  * @param client - McpdClient instance
  * @param serverNames - Optional array of server names to filter
+ * @param prefix - Returns the name prefix for a server (default: "server__")
+ * @param options - Per-server deadlines, snapshots, skip reporting and retries
  * @returns Array of tools with server__toolName naming
  */
 export async function aggregateTools(
   client: McpdClient,
   serverNames?: string[],
+  prefix: (serverName: string) => string = createPrefixer(),
+  options: AggregateOptions<Tool> = {},
 ): Promise<
-  Array<{ name: string; description?: string; inputSchema: unknown }>
+  Array<{
+    name: string;
+    title?: string;
+    description?: string;
+    inputSchema: unknown;
+    outputSchema?: unknown;
+    annotations?: ToolAnnotations;
+    _meta?: Record<string, unknown>;
+    _serverName: string;
+    _originalName: string;
+  }>
 > {
-  const healthyServers = await getHealthyServers(client, serverNames);
+  const healthyServers = await getHealthyServers(
+    client,
+    serverNames,
+    options.mcpdOptions,
+  );
 
-  const results = await Promise.allSettled(
-    healthyServers.map(async (serverName) => ({
-      serverName,
-      tools: await client.servers[serverName]!.getTools(),
-    })),
+  const { results, skipped } = await fanOut(
+    healthyServers,
+    (serverName) =>
+      callMcpd(
+        "getTools",
+        { server: serverName },
+        () => client.servers[serverName]!.getTools(),
+        options.mcpdOptions,
+      ),
+    options,
   );
+  options.onSkipped?.(skipped);
 
-  return results
-    .filter((result) => result.status === "fulfilled")
-    .flatMap((result) => {
-      const { serverName, tools } = result.value;
-      return tools.map((tool) => ({
-        ...tool,
-        name: `${serverName}__${tool.name}`,
-      }));
-    });
+  return results.flatMap(({ serverName, value: tools }) =>
+    tools.map((tool) => ({
+      ...tool,
+      name: `${prefix(serverName)}${tool.name}`,
+      _serverName: serverName,
+      _originalName: tool.name,
+    })),
+  );
 }
 
 /**
@@ -159,11 +463,15 @@ export async function aggregateTools(
  *
  * @param client - McpdClient instance
  * @param serverNames - Optional array of server names to filter
+ * @param prefix - Returns the name prefix for a server (default: "server__")
+ * @param options - Per-server deadlines, snapshots, skip reporting and retries
  * @returns Array of prompts with server__promptName naming
  */
 export async function aggregatePrompts(
   client: McpdClient,
   serverNames?: string[],
+  prefix: (serverName: string) => string = createPrefixer(),
+  options: AggregateOptions<Prompt> = {},
 ): Promise<
   Array<{
     name: string;
@@ -173,26 +481,37 @@ export async function aggregatePrompts(
       description?: string;
       required?: boolean;
     }>;
+    _serverName: string;
+    _originalName: string;
   }>
 > {
-  const healthyServers = await getHealthyServers(client, serverNames);
+  const healthyServers = await getHealthyServers(
+    client,
+    serverNames,
+    options.mcpdOptions,
+  );
 
-  const results = await Promise.allSettled(
-    healthyServers.map(async (serverName) => ({
-      serverName,
-      prompts: await client.servers[serverName]!.getPrompts(),
-    })),
+  const { results, skipped } = await fanOut(
+    healthyServers,
+    (serverName) =>
+      callMcpd(
+        "getPrompts",
+        { server: serverName },
+        () => client.servers[serverName]!.getPrompts(),
+        options.mcpdOptions,
+      ),
+    options,
   );
+  options.onSkipped?.(skipped);
 
-  return results
-    .filter((result) => result.status === "fulfilled")
-    .flatMap((result) => {
-      const { serverName, prompts } = result.value;
-      return prompts.map((prompt) => ({
-        ...prompt,
-        name: `${serverName}__${prompt.name}`,
-      }));
-    });
+  return results.flatMap(({ serverName, value: prompts }) =>
+    prompts.map((prompt) => ({
+      ...prompt,
+      name: `${prefix(serverName)}${prompt.name}`,
+      _serverName: serverName,
+      _originalName: prompt.name,
+    })),
+  );
 }
 
 /**
@@ -200,11 +519,15 @@ export async function aggregatePrompts(
  *
  * @param client - McpdClient instance
  * @param serverNames - Optional array of server names to filter
+ * @param prefix - Returns the name prefix for a server (default: "server__")
+ * @param options - Per-server deadlines, snapshots, skip reporting and retries
  * @returns Array of resources with server__resourceName naming and mcpd:// URIs
  */
 export async function aggregateResources(
   client: McpdClient,
   serverNames?: string[],
+  prefix: (serverName: string) => string = createPrefixer(),
+  options: AggregateOptions<Resource> = {},
 ): Promise<
   Array<{
     uri: string;
@@ -215,27 +538,34 @@ export async function aggregateResources(
     _originalUri: string;
   }>
 > {
-  const healthyServers = await getHealthyServers(client, serverNames);
+  const healthyServers = await getHealthyServers(
+    client,
+    serverNames,
+    options.mcpdOptions,
+  );
 
-  const results = await Promise.allSettled(
-    healthyServers.map(async (serverName) => ({
-      serverName,
-      resources: await client.servers[serverName]!.getResources(),
-    })),
+  const { results, skipped } = await fanOut(
+    healthyServers,
+    (serverName) =>
+      callMcpd(
+        "getResources",
+        { server: serverName },
+        () => client.servers[serverName]!.getResources(),
+        options.mcpdOptions,
+      ),
+    options,
   );
+  options.onSkipped?.(skipped);
 
-  return results
-    .filter((result) => result.status === "fulfilled")
-    .flatMap((result) => {
-      const { serverName, resources } = result.value;
-      return resources.map((resource) => ({
-        ...resource,
-        name: `${serverName}__${resource.name}`,
-        uri: `mcpd://${serverName}/${resource.uri}`,
-        _serverName: serverName,
-        _originalUri: resource.uri,
-      }));
-    });
+  return results.flatMap(({ serverName, value: resources }) =>
+    resources.map((resource) => ({
+      ...resource,
+      name: `${prefix(serverName)}${resource.name}`,
+      uri: `${resourceUriPrefix(serverName)}${resource.uri}`,
+      _serverName: serverName,
+      _originalUri: resource.uri,
+    })),
+  );
 }
 
 /**
@@ -243,54 +573,333 @@ export async function aggregateResources(
  *
  * @param client - McpdClient instance
  * @param serverNames - Optional array of server names to filter
- * @returns Array of resource templates with server__templateName naming
+ * @param prefix - Returns the name prefix for a server (default: "server__")
+ * @param options - Per-server deadlines, snapshots, skip reporting and retries
+ * @returns Array of resource templates with server__templateName naming and
+ *   mcpd://server/ URI templates
  */
 export async function aggregateResourceTemplates(
   client: McpdClient,
   serverNames?: string[],
+  prefix: (serverName: string) => string = createPrefixer(),
+  options: AggregateOptions<ResourceTemplate> = {},
 ): Promise<
   Array<{
     uriTemplate: string;
     name: string;
     description?: string;
     mimeType?: string;
+    _serverName: string;
+    _originalUriTemplate: string;
   }>
 > {
-  const healthyServers = await getHealthyServers(client, serverNames);
+  const healthyServers = await getHealthyServers(
+    client,
+    serverNames,
+    options.mcpdOptions,
+  );
 
-  const results = await Promise.allSettled(
-    healthyServers.map(async (serverName) => ({
-      serverName,
-      templates: await client.servers[serverName]!.getResourceTemplates(),
-    })),
+  const { results, skipped } = await fanOut(
+    healthyServers,
+    (serverName) =>
+      callMcpd(
+        "getResourceTemplates",
+        { server: serverName },
+        () => client.servers[serverName]!.getResourceTemplates(),
+        options.mcpdOptions,
+      ),
+    options,
   );
+  options.onSkipped?.(skipped);
 
-  return results
-    .filter((result) => result.status === "fulfilled")
-    .flatMap((result) => {
-      const { serverName, templates } = result.value;
-      return templates.map((template) => ({
-        ...template,
-        name: `${serverName}__${template.name}`,
-      }));
-    });
+  return results.flatMap(({ serverName, value: templates }) =>
+    templates.map((template) => ({
+      ...template,
+      name: `${prefix(serverName)}${template.name}`,
+      uriTemplate: `${resourceUriPrefix(serverName)}${template.uriTemplate}`,
+      _serverName: serverName,
+      _originalUriTemplate: template.uriTemplate,
+    })),
+  );
 }
 
 /**
- * Create and configure the MCP server.
- *
- * Creates a singleton McpdClient instance and sets up all MCP protocol handlers.
- * The singleton client is reused across all requests to preserve caching.
+ * Create the McpdClient used to talk to the mcpd daemon.
  *
  * @param config - Configuration object with mcpd address and API key.
- * @returns Configured MCP Server instance.
+ * @returns McpdClient instance.
  */
-export function createMcpServer(config: Config): Server {
-  const mcpdClient = new McpdClient({
+export function createMcpdClient(config: Config): McpdClient {
+  return new McpdClient({
     apiEndpoint: config.mcpdAddr,
     apiKey: config.mcpdApiKey,
     healthCacheTtl: 10,
+    timeout: mcpdRequestTimeout(config),
   });
+}
+
+/** List result _meta key reporting servers skipped during aggregation. */
+export const SKIPPED_SERVERS_META_KEY = "mcpd-proxy/skippedServers";
+
+/**
+ * Cached aggregated catalogs, one per kind.
+ */
+export interface Catalogs {
+  tools: CatalogCache<Awaited<ReturnType<typeof aggregateTools>>>;
+  prompts: CatalogCache<Awaited<ReturnType<typeof aggregatePrompts>>>;
+  resources: CatalogCache<Awaited<ReturnType<typeof aggregateResources>>>;
+  resourceTemplates: CatalogCache<
+    Awaited<ReturnType<typeof aggregateResourceTemplates>>
+  >;
+
+  /** Servers failing during the latest load of each catalog. */
+  diagnostics: Diagnostics;
+
+  /** Circuit breakers per upstream server, shared by every session. */
+  breakers: CircuitBreakers;
+
+  /**
+   * Subscribe to catalog changes. One watcher polls mcpd every
+   * watchIntervalMs while at least one listener is subscribed, however many
+   * sessions are connected.
+   *
+   * @param listener - Called once per kind that changed since the last poll.
+   * @returns Function that unsubscribes the listener.
+   */
+  watch(listener: (kind: CatalogKind) => void | Promise<void>): () => void;
+}
+
+/**
+ * Create the stale-while-revalidate caches for the aggregated catalogs.
+ *
+ * Catalogs only depend on configuration and mcpd, so one set of caches can
+ * serve every session (HTTP transport). Each server gets serverTimeoutMs (or
+ * its serverTimeouts entry) to answer; late or failed servers are served from
+ * their last good snapshot, or left out until they answer again.
+ *
+ * @param config - Configuration with server filters, naming and cache TTLs.
+ * @param mcpdClient - McpdClient to aggregate from.
+ * @returns Catalog caches.
+ */
+export function createCatalogs(
+  config: Config,
+  mcpdClient: McpdClient,
+): Catalogs {
+  const isServerAllowed = createNameFilter(
+    config.includeServers,
+    config.excludeServers,
+  );
+  const prefix = createPrefixer(config);
+  const breakers = new CircuitBreakers({
+    threshold:
+      config.circuitBreakerThreshold ?? DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+    cooldownMs:
+      config.circuitBreakerCooldownMs ?? DEFAULT_CIRCUIT_BREAKER_COOLDOWN_MS,
+  });
+  const diagnostics = new Diagnostics({
+    circuits: () => breakers.circuits(),
+  });
+  const mcpdOptions: CallMcpdOptions = {
+    retry: retryOptionsFromConfig(config),
+    diagnostics,
+    breakers,
+  };
+
+  const listAllowedServers = async () =>
+    (
+      await callMcpd(
+        "listServers",
+        {},
+        () => mcpdClient.listServers(),
+        mcpdOptions,
+      )
+    ).filter(isServerAllowed);
+  const ttlMs = (kind: CatalogCacheKind) =>
+    config.catalogTtlMs?.[kind] ?? DEFAULT_CATALOG_TTL_MS;
+
+  const timeoutMs = (serverName: string) =>
+    config.serverTimeouts?.[serverName] ??
+    config.serverTimeoutMs ??
+    DEFAULT_SERVER_TIMEOUT_MS;
+  const aggregateOptions = <T>(
+    kind: CatalogCacheKind,
+  ): AggregateOptions<T> => ({
+    timeoutMs,
+    snapshots: new Map(),
+    onSkipped: (skipped) => diagnostics.record(kind, skipped),
+    mcpdOptions,
+  });
+  const toolOptions = aggregateOptions<Tool>("tools");
+  const promptOptions = aggregateOptions<Prompt>("prompts");
+  const resourceOptions = aggregateOptions<Resource>("resources");
+  const templateOptions =
+    aggregateOptions<ResourceTemplate>("resourceTemplates");
+
+  // Catalog loads are shared by every session, so what they log is not tied
+  // to the session whose request started one.
+  const loadCatalog =
+    <T extends { _serverName: string }>(
+      catalog: CatalogCacheKind,
+      aggregate: () => Promise<T[]>,
+    ) =>
+    () =>
+      logger.withContext({}, async () => {
+        const start = performance.now();
+        try {
+          const items = await aggregate();
+          metrics.setCatalogItems(catalog, items);
+          metrics.catalogCacheRefreshes.inc({ catalog, result: "ok" });
+          metrics.catalogCacheLoaded.set({ catalog }, Date.now() / 1000);
+          return items;
+        } catch (error) {
+          metrics.catalogCacheRefreshes.inc({ catalog, result: "error" });
+          throw error;
+        } finally {
+          metrics.aggregationDuration.observe(
+            { catalog },
+            (performance.now() - start) / 1000,
+          );
+        }
+      });
+
+  const countRequest =
+    (catalog: CatalogCacheKind) => (result: CatalogCacheResult) =>
+      metrics.catalogCacheRequests.inc({ catalog, result });
+
+  const catalogs = {
+    tools: new CatalogCache({
+      ttlMs: ttlMs("tools"),
+      onRequest: countRequest("tools"),
+      load: loadCatalog("tools", async () =>
+        aggregateTools(
+          mcpdClient,
+          await listAllowedServers(),
+          prefix,
+          toolOptions,
+        ),
+      ),
+    }),
+    prompts: new CatalogCache({
+      ttlMs: ttlMs("prompts"),
+      onRequest: countRequest("prompts"),
+      load: loadCatalog("prompts", async () =>
+        aggregatePrompts(
+          mcpdClient,
+          await listAllowedServers(),
+          prefix,
+          promptOptions,
+        ),
+      ),
+    }),
+    resources: new CatalogCache({
+      ttlMs: ttlMs("resources"),
+      onRequest: countRequest("resources"),
+      load: loadCatalog("resources", async () =>
+        aggregateResources(
+          mcpdClient,
+          await listAllowedServers(),
+          prefix,
+          resourceOptions,
+        ),
+      ),
+    }),
+    resourceTemplates: new CatalogCache({
+      ttlMs: ttlMs("resourceTemplates"),
+      onRequest: countRequest("resourceTemplates"),
+      load: loadCatalog("resourceTemplates", async () =>
+        aggregateResourceTemplates(
+          mcpdClient,
+          await listAllowedServers(),
+          prefix,
+          templateOptions,
+        ),
+      ),
+    }),
+  };
+
+  // One watcher for the whole process: each poll reloads every catalog once
+  // and fans the changes out to the subscribed sessions.
+  const watchIntervalMs = config.watchIntervalMs ?? DEFAULT_WATCH_INTERVAL_MS;
+  const listeners = new Set<(kind: CatalogKind) => void | Promise<void>>();
+  const watcher = new CatalogWatcher({
+    intervalMs: watchIntervalMs,
+    snapshot: async () => {
+      const [tools, prompts, resources, resourceTemplates] = await Promise.all(
+        CATALOG_CACHE_KINDS.map((kind) => catalogs[kind].refresh()),
+      );
+      return { tools, prompts, resources: [resources, resourceTemplates] };
+    },
+    onChange: async (kind) => {
+      await Promise.all(
+        [...listeners].map(async (listener) => {
+          try {
+            await listener(kind);
+          } catch {
+            // The session may have closed; the others still get notified.
+          }
+        }),
+      );
+    },
+  });
+
+  return {
+    ...catalogs,
+    diagnostics,
+    breakers,
+    watch(listener) {
+      if (watchIntervalMs <= 0) {
+        return () => {};
+      }
+      listeners.add(listener);
+      watcher.start();
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          watcher.stop();
+        }
+      };
+    },
+  };
+}
+
+/**
+ * Create and configure the MCP server.
+ *
+ * Sets up all MCP protocol handlers on top of an McpdClient. The client is
+ * reused across all requests to preserve caching; when serving several
+ * sessions (HTTP transport), pass one shared client and one shared set of
+ * catalogs to every server.
+ *
+ * @param config - Configuration object with mcpd address and API key.
+ * @param mcpdClient - McpdClient to use (defaults to a new client for config).
+ * @param catalogs - Catalog caches to use (defaults to new caches).
+ * @returns Configured MCP Server instance.
+ */
+export function createMcpServer(
+  config: Config,
+  mcpdClient: McpdClient = createMcpdClient(config),
+  catalogs: Catalogs = createCatalogs(config, mcpdClient),
+): Server {
+  const watchIntervalMs = config.watchIntervalMs ?? DEFAULT_WATCH_INTERVAL_MS;
+  const listChanged = watchIntervalMs > 0;
+  const progressIntervalMs =
+    config.progressIntervalMs ?? DEFAULT_PROGRESS_INTERVAL_MS;
+  const mcpdOptions: CallMcpdOptions = {
+    retry: retryOptionsFromConfig(config),
+    diagnostics: catalogs.diagnostics,
+    breakers: catalogs.breakers,
+  };
+  const subscriptionIntervalMs =
+    config.subscriptionIntervalMs ?? DEFAULT_SUBSCRIPTION_INTERVAL_MS;
+  const subscribe = subscriptionIntervalMs > 0;
+  const pageSize = config.pageSize ?? DEFAULT_PAGE_SIZE;
+  const capabilities = {
+    tools: { listChanged },
+    resources: { listChanged, subscribe },
+    prompts: { listChanged },
+    completions: {},
+    logging: {},
+  };
 
   const server = new Server(
     {
@@ -298,267 +907,1072 @@ export function createMcpServer(config: Config): Server {
       version: pkg.version,
     },
     {
-      capabilities: {
-        tools: {},
-        resources: {},
-        prompts: {},
-      },
+      capabilities,
     },
   );
 
-  server.setRequestHandler(InitializeRequestSchema, async () => {
-    return {
-      protocolVersion: "2024-11-05",
-      capabilities: {
-        tools: {},
-        resources: {},
-        prompts: {},
-      },
-      serverInfo: {
-        name: "mcpd-proxy",
-        version: pkg.version,
-      },
+  // Each Server instance serves one session, so the negotiated version lives
+  // here. Until initialize completes, assume the latest version.
+  let protocolVersion = LATEST_PROTOCOL_VERSION;
+  let features = getProtocolFeatures(protocolVersion);
+
+  // Tags this session's log records.
+  const session = randomUUID();
+
+  /**
+   * Wrap a request handler to trace it as a server span and log the request,
+   * its latency and failures. Over HTTP, a traceparent header on the request
+   * becomes the span's parent.
+   *
+   * @param method - MCP method name
+   * @param handler - Request handler
+   * @returns Handler with tracing and logging
+   */
+  function instrument<Req, R>(
+    method: string,
+    handler: (request: Req, extra: HandlerExtra) => Promise<R>,
+  ): (request: Req, extra: HandlerExtra) => Promise<R> {
+    return (request, extra) => {
+      const traceparent = extra?.requestInfo?.headers[TRACEPARENT_HEADER];
+      return tracer.withSpan(
+        method,
+        {
+          kind: "server",
+          attributes: { "mcp.method.name": method, "mcp.session.id": session },
+          parent: parseTraceparent([traceparent ?? []].flat()[0]),
+        },
+        () =>
+          logger.withContext({ session }, async () => {
+            const start = performance.now();
+            logger.debug(`Request ${method}`, { method });
+            try {
+              const result = await handler(request, extra);
+              logger.debug(`Response ${method}`, {
+                method,
+                durationMs: elapsedMs(start),
+              });
+              return result;
+            } catch (error) {
+              logger.error(`Request ${method} failed`, {
+                method,
+                durationMs: elapsedMs(start),
+                error,
+              });
+              throw error;
+            }
+          }),
+      );
     };
-  });
+  }
+
+  const isServerAllowed = createNameFilter(
+    config.includeServers,
+    config.excludeServers,
+  );
+
+  /**
+   * Reject a server hidden by configuration as if it did not exist,
+   * so hidden servers cannot be invoked by name.
+   */
+  function assertServerAllowed(serverName: string): void {
+    if (!isServerAllowed(serverName)) {
+      throw new ServerNotFoundError(
+        `Server '${serverName}' not found`,
+        serverName,
+      );
+    }
+  }
+
+  const isToolNameAllowed = createNameFilter(
+    config.includeTools,
+    config.excludeTools,
+  );
+
+  /**
+   * Check a tool against the include/exclude lists and tool profile.
+   *
+   * @param toolName - Canonical tool name (server__tool, see canonicalName)
+   * @param annotations - Tool annotations, used by the read-only profile
+   * @returns True if the tool may be listed and called
+   */
+  function isToolAllowed(
+    toolName: string,
+    annotations?: ToolAnnotations,
+  ): boolean {
+    if (!isToolNameAllowed(toolName)) {
+      return false;
+    }
+    return !(
+      config.toolProfile === "read-only" && isDestructiveTool(annotations)
+    );
+  }
+
+  /**
+   * Drop a cached catalog when mcpd no longer knows an item or server listed
+   * in it, so the next request reloads it instead of serving the stale entry.
+   *
+   * @param kind - Catalog the item was resolved from
+   * @returns Rejection handler that rethrows the error
+   */
+  function invalidateOnMissing(kind: CatalogCacheKind) {
+    return (error: unknown): never => {
+      if (
+        error instanceof ToolNotFoundError ||
+        error instanceof ServerNotFoundError
+      ) {
+        catalogs[kind].invalidate();
+      }
+      throw error;
+    };
+  }
+
+  const toolNames = new NameTable("tool");
+  const promptNames = new NameTable("prompt");
+  /** Definitions of the tools in toolNames, by exposed name. */
+  let toolDefinitions = new Map<
+    string,
+    Awaited<ReturnType<typeof aggregateTools>>[number]
+  >();
+  /** Definitions of the prompts in promptNames, by exposed name. */
+  let promptDefinitions = new Map<
+    string,
+    Awaited<ReturnType<typeof aggregatePrompts>>[number]
+  >();
+
+  // Catalogs leave out servers whose circuit is open. Their names stay routed
+  // so calls fail fast as unavailable instead of as unknown.
+  const isCircuitOpen = (origin: NameOrigin) =>
+    catalogs.breakers.isOpen(origin.server);
+
+  /**
+   * Map exposed names to definitions after a name table rebuild, keeping the
+   * previous definitions of names the table retained.
+   *
+   * @param kept - Items that kept their names
+   * @param table - The rebuilt name table
+   * @param previous - Definitions before the rebuild
+   * @returns Definitions by exposed name
+   */
+  function definitionsOf<
+    T extends { name: string; _serverName: string; _originalName: string },
+  >(kept: T[], table: NameTable, previous: Map<string, T>): Map<string, T> {
+    const definitions = new Map(kept.map((item) => [item.name, item]));
+    for (const [name, item] of previous) {
+      const origin = table.resolve(name);
+      if (
+        !definitions.has(name) &&
+        origin?.server === item._serverName &&
+        origin.name === item._originalName
+      ) {
+        definitions.set(name, item);
+      }
+    }
+    return definitions;
+  }
+
+  /**
+   * Get the tool catalog and rebuild the tool name table.
+   * Names are sanitized first (when enabled) so the table maps the names
+   * clients actually see back to the original server and tool.
+   *
+   * @param revalidate - Wait for an expired catalog to reload instead of
+   *   serving it stale
+   * @returns Tools that kept their names after collision handling
+   */
+  async function refreshTools(revalidate = false) {
+    const tools = await (revalidate
+      ? catalogs.tools.revalidate()
+      : catalogs.tools.get());
+
+    const kept = toolNames.rebuild(
+      config.sanitizeToolNames === false
+        ? tools
+        : tools.map((tool) => ({
+            ...tool,
+            name: sanitizeName(tool.name, config.maxToolNameLength),
+          })),
+      isCircuitOpen,
+    );
+    toolDefinitions = definitionsOf(kept, toolNames, toolDefinitions);
+    catalogs.diagnostics.recordCollisions("tools", toolNames.collisions);
+    return kept;
+  }
+
+  /**
+   * Get the prompt catalog and rebuild the prompt name table.
+   *
+   * @param revalidate - Wait for an expired catalog to reload instead of
+   *   serving it stale
+   * @returns Prompts that kept their names after collision handling
+   */
+  async function refreshPrompts(revalidate = false) {
+    const kept = promptNames.rebuild(
+      await (revalidate
+        ? catalogs.prompts.revalidate()
+        : catalogs.prompts.get()),
+      isCircuitOpen,
+    );
+    promptDefinitions = definitionsOf(kept, promptNames, promptDefinitions);
+    catalogs.diagnostics.recordCollisions("prompts", promptNames.collisions);
+    return kept;
+  }
+
+  let templateRoutes: Array<{ server: string; template: UriTemplate }> = [];
+
+  /**
+   * Get the resource template catalog and rebuild the routes for expanded
+   * URIs.
+   */
+  async function refreshResourceTemplates() {
+    const templates = await catalogs.resourceTemplates.get();
+
+    templateRoutes = templates.flatMap((template) => {
+      try {
+        return [
+          {
+            server: template._serverName,
+            template: new UriTemplate(template.uriTemplate),
+          },
+        ];
+      } catch {
+        // Skip templates the SDK cannot parse; their URIs still resolve by
+        // prefix.
+        return [];
+      }
+    });
+    return templates;
+  }
+
+  /**
+   * Resolve a proxied resource URI to its server and upstream URI.
+   *
+   * URIs expanded from a listed template route to that template's server,
+   * which works even for server names that are not valid URL hosts. Other
+   * URIs are parsed by their mcpd://server/ prefix.
+   *
+   * @param uri - Proxied resource URI
+   * @returns Server name and upstream URI
+   * @throws Error if the URI format is invalid
+   */
+  function resolveResourceUri(uri: string): {
+    server: string;
+    originalUri: string;
+  } {
+    const route = templateRoutes.find(({ template }) => template.match(uri));
+    if (route) {
+      return {
+        server: route.server,
+        originalUri: uri.slice(resourceUriPrefix(route.server).length),
+      };
+    }
+    return parseResourceUri(uri);
+  }
+
+  /**
+   * Resolve an exposed name to its server and item by table lookup.
+   * On a miss (e.g., a call before any list request) the table is rebuilt
+   * once before giving up, from a catalog reloaded only if it is older than
+   * its TTL, so unknown names cannot make every request query every server.
+   *
+   * @param table - Name table to look in
+   * @param refresh - Rebuilds the table from the revalidated catalog
+   * @param name - Exposed name from the client
+   * @returns Origin, or undefined if no server exposes the name
+   */
+  async function resolveName(
+    table: NameTable,
+    refresh: () => Promise<unknown>,
+    name: string,
+  ): Promise<NameOrigin | undefined> {
+    const origin = table.resolve(name);
+    if (origin) {
+      return origin;
+    }
+    await refresh();
+    return table.resolve(name);
+  }
 
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
+  /**
+   * Report servers left out of (or stale in) a catalog in the list result's
+   * _meta, so clients can tell the list is incomplete.
+   */
+  function skippedMeta(kind: CatalogCacheKind) {
+    const skipped = catalogs.diagnostics.failures(kind);
+    return skipped.length > 0
+      ? { _meta: { [SKIPPED_SERVERS_META_KEY]: skipped } }
+      : {};
+  }
+
+  /**
+   * Build the MCP tools/list catalog.
+   */
+  async function listTools() {
     // NOTE: aggregateTools() automatically filters out unhealthy servers.
     // It checks health status and only returns tools from healthy servers,
     // ensuring tools from unreachable or unhealthy servers are not exposed.
-    const allTools = await aggregateTools(mcpdClient);
-    const mcpTools = allTools.map((tool) => ({
+    // Servers hidden by the include/exclude configuration are never queried.
+    // Refreshing also rebuilds the name table used to route tool calls.
+    const allTools = await refreshTools();
+
+    // The built-in status tool shadows an upstream tool of the same name.
+    // Filters match canonical names, whatever the exposed names look like.
+    return [
+      ...(isToolAllowed(STATUS_TOOL_NAME, STATUS_TOOL.annotations)
+        ? [STATUS_TOOL]
+        : []),
+      ...withoutOpenCircuits(allTools).filter(
+        (tool) =>
+          tool.name !== STATUS_TOOL_NAME &&
+          isToolAllowed(
+            canonicalName(tool._serverName, tool._originalName),
+            tool.annotations,
+          ),
+      ),
+    ].map((tool) => ({
       name: tool.name,
+      ...(features.titles && tool.title !== undefined && { title: tool.title }),
       description: tool.description || `Tool ${tool.name}`,
       inputSchema: tool.inputSchema || {
         type: "object",
         properties: {},
       },
+      // Optional spec fields are forwarded only when the upstream tool
+      // declares them and the negotiated protocol version defines them.
+      ...(features.structuredContent &&
+        tool.outputSchema !== undefined && {
+          outputSchema: tool.outputSchema,
+        }),
+      ...(features.toolAnnotations &&
+        tool.annotations !== undefined && {
+          annotations: tool.annotations,
+        }),
+      ...(features.titles && tool._meta !== undefined && { _meta: tool._meta }),
     }));
+  }
 
-    return { tools: mcpTools };
-  });
+  /**
+   * Leave out items of servers whose circuit opened since the catalog was
+   * loaded; the next load skips those servers altogether.
+   */
+  function withoutOpenCircuits<T extends { _serverName: string }>(
+    items: T[],
+  ): T[] {
+    return items.filter((item) => !catalogs.breakers.isOpen(item._serverName));
+  }
+
+  /**
+   * Build the MCP resources/list catalog.
+   */
+  async function listResources() {
+    // NOTE: aggregateResources() automatically filters out unhealthy servers and
+    // handles 501 Not Implemented responses. It returns resources with namespaced
+    // names (serverName__resourceName) and mcpd:// URIs.
+    const allResources = await catalogs.resources.get();
+
+    // Transform to MCP format.
+    return [
+      {
+        uri: STATUS_RESOURCE_URI,
+        name: "mcpd-proxy status",
+        description:
+          "Proxy version, mcpd address, server health and filtered servers",
+        mimeType: "text/markdown",
+      },
+      {
+        uri: DIAGNOSTICS_RESOURCE_URI,
+        name: "mcpd-proxy diagnostics",
+        description: "Servers failing while the proxy aggregates catalogs",
+        mimeType: "application/json",
+      },
+      ...withoutOpenCircuits(allResources).map((resource) => ({
+        uri: resource.uri, // Already has mcpd:// URI from aggregateResources
+        name: resource.name, // Already namespaced
+        description:
+          resource.description ||
+          `Resource from ${resource._serverName} server`,
+        mimeType: resource.mimeType,
+      })),
+    ];
+  }
+
+  /**
+   * Build the MCP resources/templates/list catalog.
+   */
+  async function listResourceTemplates() {
+    // NOTE: aggregateResourceTemplates() automatically filters out unhealthy servers and
+    // handles 501 Not Implemented responses. It returns templates with namespaced
+    // names (serverName__templateName) and mcpd:// URI templates.
+    // Refreshing also rebuilds the routes used to resolve expanded URIs.
+    const allTemplates = await refreshResourceTemplates();
+
+    // Transform to MCP format.
+    return withoutOpenCircuits(allTemplates).map((template) => ({
+      name: template.name, // Already namespaced
+      uriTemplate: template.uriTemplate,
+      description: template.description,
+      mimeType: template.mimeType,
+    }));
+  }
+
+  /**
+   * Build the MCP prompts/list catalog.
+   */
+  async function listPrompts() {
+    // NOTE: aggregatePrompts() automatically filters out unhealthy servers and
+    // handles 501 Not Implemented responses. It returns prompts with namespaced
+    // names (serverName__promptName) and rebuilds the prompt name table.
+    const allPrompts = await refreshPrompts();
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const fullToolName = request.params.name;
+    // Transform to MCP format.
+    return withoutOpenCircuits(allPrompts).map((prompt) => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments,
+    }));
+  }
 
+  /**
+   * Build the status report for this session from mcpd's server health, the
+   * aggregated catalogs and the configuration.
+   */
+  async function getStatus() {
+    let mcpd: ProxyStatusInput["mcpd"];
     try {
-      const { server: serverName, name: tool } = parsePrefixedName(
-        fullToolName,
-        "tool",
-      );
-      const result = await mcpdClient.servers[serverName].callTool(
-        tool,
-        (request.params.arguments as Record<string, unknown>) || {},
+      const [servers, health] = await Promise.all([
+        callMcpd(
+          "listServers",
+          {},
+          () => mcpdClient.listServers(),
+          mcpdOptions,
+        ),
+        callMcpd(
+          "getServerHealth",
+          {},
+          () => mcpdClient.getServerHealth(),
+          mcpdOptions,
+        ),
+      ]);
+      mcpd = { servers, health };
+    } catch (error) {
+      mcpd = { error };
+    }
+
+    // Count items per server from the cached catalogs; a catalog that cannot
+    // be loaded counts as empty.
+    const items = <T>(cache: CatalogCache<T[]>) =>
+      cache.get().catch((): T[] => []);
+    const [tools, prompts, resources, resourceTemplates] = await Promise.all([
+      items(catalogs.tools),
+      items(catalogs.prompts),
+      items(catalogs.resources),
+      items(catalogs.resourceTemplates),
+    ]);
+
+    return buildProxyStatus({
+      version: pkg.version,
+      transport: config.transport ?? "stdio",
+      protocolVersion,
+      mcpdAddr: config.mcpdAddr,
+      mcpd,
+      isServerAllowed,
+      catalogs: { tools, prompts, resources, resourceTemplates },
+      failures: catalogs.diagnostics.failures(),
+      collisions: catalogs.diagnostics.collisions(),
+      caches: {
+        tools: catalogs.tools.metrics,
+        prompts: catalogs.prompts.metrics,
+        resources: catalogs.resources.metrics,
+        resourceTemplates: catalogs.resourceTemplates.metrics,
+      },
+    });
+  }
+
+  /**
+   * Read a resource by its proxied mcpd:// URI, or one of the proxy's own
+   * mcpd-proxy:// resources.
+   */
+  async function readResource(uri: string) {
+    if (uri === STATUS_RESOURCE_URI) {
+      return statusResourceContents(await getStatus());
+    }
+    if (uri === DIAGNOSTICS_RESOURCE_URI) {
+      return catalogs.diagnostics.toResourceContents();
+    }
+
+    const { server: serverName, originalUri } = resolveResourceUri(uri);
+    assertServerAllowed(serverName);
+
+    // Use SDK's server-level readResource method which handles health checks
+    // and error handling automatically.
+    return callMcpd(
+      "readResource",
+      { server: serverName },
+      () => mcpdClient.servers[serverName].readResource(originalUri),
+      mcpdOptions,
+    );
+  }
+
+  /**
+   * Read a subscribed resource for change detection. The proxy's own
+   * resources are compared without the fields that differ on every read, such
+   * as their generation time.
+   */
+  async function readSubscribedResource(uri: string) {
+    if (uri === STATUS_RESOURCE_URI) {
+      return statusSnapshot(await getStatus());
+    }
+    if (uri === DIAGNOSTICS_RESOURCE_URI) {
+      return catalogs.diagnostics.snapshot();
+    }
+    return readResource(uri);
+  }
+
+  // Poll subscribed resources and tell the client when their contents change.
+  const subscriptions = subscribe
+    ? new ResourceSubscriptions({
+        intervalMs: subscriptionIntervalMs,
+        read: readSubscribedResource,
+        onUpdated: (uri) => server.sendResourceUpdated({ uri }),
+      })
+    : undefined;
+
+  // Until the client sets its own level, forward what stderr would show.
+  let clientLogLevel: LogLevel = config.logLevel ?? DEFAULT_LOG_LEVEL;
+
+  /**
+   * Forward a log record to the client as an MCP log message. Records
+   * tagged with another session are not forwarded.
+   */
+  function forwardLog(record: LogRecord) {
+    const { level, message, fields } = record;
+    if (
+      (fields.session !== undefined && fields.session !== session) ||
+      !isLevelEnabled(level, clientLogLevel)
+    ) {
+      return;
+    }
+    server
+      .sendLoggingMessage({
+        level,
+        logger: LOGGER_NAME,
+        data: { message, ...serializeFields(fields) },
+      })
+      .catch(() => {
+        // The session may have closed; the record is still on stderr.
+      });
+  }
+
+  let removeLogSink: (() => void) | undefined;
+  let unwatch: (() => void) | undefined;
+
+  server.oninitialized = () => {
+    // The shared watcher reflects mcpd's server set and health; tell the
+    // client when one of its lists changes.
+    unwatch ??= catalogs.watch((kind) => {
+      switch (kind) {
+        case "tools":
+          return server.sendToolListChanged();
+        case "prompts":
+          return server.sendPromptListChanged();
+        case "resources":
+          return server.sendResourceListChanged();
+      }
+    });
+    removeLogSink ??= logger.addSink(forwardLog);
+  };
+  server.onclose = () => {
+    unwatch?.();
+    unwatch = undefined;
+    subscriptions?.stop();
+    removeLogSink?.();
+    removeLogSink = undefined;
+  };
+
+  server.setRequestHandler(
+    SetLevelRequestSchema,
+    instrument("logging/setLevel", async (request) => {
+      clientLogLevel = request.params.level;
+      return {};
+    }),
+  );
+
+  server.setRequestHandler(
+    InitializeRequestSchema,
+    instrument("initialize", async (request) => {
+      protocolVersion = negotiateProtocolVersion(
+        request.params.protocolVersion,
       );
+      features = getProtocolFeatures(protocolVersion);
 
       return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
+        protocolVersion,
+        capabilities,
+        serverInfo: {
+          name: "mcpd-proxy",
+          version: pkg.version,
+        },
       };
-    } catch (error) {
-      // Handle SDK-specific errors with contextual messages.
-      if (error instanceof ToolNotFoundError) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Tool '${fullToolName}' not found. Run the tools/list request to see available tools.`,
-            },
-          ],
-          isError: true,
-        };
+    }),
+  );
+
+  server.setRequestHandler(
+    ListToolsRequestSchema,
+    instrument("tools/list", async (request) => {
+      const page = paginate(await listTools(), {
+        list: "tools",
+        key: (tool) => tool.name,
+        pageSize,
+        cursor: request.params?.cursor,
+      });
+      return {
+        tools: page.items,
+        nextCursor: page.nextCursor,
+        ...skippedMeta("tools"),
+      };
+    }),
+  );
+
+  server.setRequestHandler(
+    CallToolRequestSchema,
+    instrument("tools/call", async (request, extra) => {
+      const fullToolName = request.params.name;
+
+      if (
+        fullToolName === STATUS_TOOL_NAME &&
+        isToolAllowed(STATUS_TOOL_NAME, STATUS_TOOL.annotations)
+      ) {
+        return statusToolResult(await getStatus(), features.structuredContent);
       }
 
-      if (error instanceof ToolExecutionError) {
-        let message = `Tool '${fullToolName}' execution failed: ${error.message}`;
+      // Unknown tools are counted with empty labels to bound cardinality.
+      const labels = { server: "", tool: "" };
+      const start = performance.now();
+      let outcome = "ok";
+      let failure: unknown;
 
-        // Include detailed validation errors from mcpd API.
-        if (error.errorModel?.errors && error.errorModel.errors.length > 0) {
-          const details = error.errorModel.errors
-            .map((e) => `  ${e.location}: ${e.message}`)
-            .join("\n");
-          message += `\n\nValidation errors:\n${details}`;
+      try {
+        const origin = await resolveName(
+          toolNames,
+          () => refreshTools(true),
+          fullToolName,
+        );
+        if (!origin) {
+          throw new ToolNotFoundError(
+            `Tool '${fullToolName}' not found`,
+            undefined,
+            fullToolName,
+          );
         }
 
-        return {
-          content: [{ type: "text", text: message }],
-          isError: true,
-        };
-      }
+        const { server: serverName, name: tool } = origin;
+        Object.assign(labels, { server: serverName, tool });
+        tracer.activeSpan()?.setAttributes({
+          "mcpd.server.name": serverName,
+          "mcpd.tool.name": tool,
+        });
+        assertServerAllowed(serverName);
+        if (catalogs.breakers.isOpen(serverName)) {
+          throw new CircuitOpenError(serverName);
+        }
 
-      if (error instanceof ServerNotFoundError) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Tool '${fullToolName}' is not available. The underlying service may have been removed or is not configured.`,
-            },
-          ],
-          isError: true,
-        };
-      }
+        // The definition supplies annotations for the read-only profile and the
+        // outputSchema for structured results.
+        const definition = toolDefinitions.get(fullToolName);
 
-      if (error instanceof ServerUnhealthyError) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Tool '${fullToolName}' is temporarily unavailable. Please try again later.`,
-            },
-          ],
-          isError: true,
-        };
-      }
+        if (
+          !isToolAllowed(
+            canonicalName(serverName, tool),
+            definition?.annotations,
+          )
+        ) {
+          outcome = "disabled";
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Tool '${fullToolName}' is disabled by the proxy configuration.`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-      if (error instanceof ConnectionError) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Cannot connect to mcpd daemon. Please ensure mcpd is running and accessible.`,
-            },
-          ],
-          isError: true,
-        };
-      }
+        // mcpd reports no progress, so clients that asked for it get a
+        // heartbeat while the call runs.
+        const stopHeartbeat = startProgressHeartbeat(
+          request.params._meta?.progressToken,
+          {
+            intervalMs: progressIntervalMs,
+            message: (elapsedMs) =>
+              `Waiting for '${fullToolName}' (${Math.round(elapsedMs / 1000)}s elapsed)`,
+            send: (notification) => extra.sendNotification(notification),
+            onError: (error) =>
+              logger.debug("Failed to send progress notification", { error }),
+          },
+        );
 
-      if (error instanceof AuthenticationError) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Authentication failed. Please check your MCPD_API_KEY configuration.`,
-            },
-          ],
-          isError: true,
-        };
-      }
+        // Cancelling the request or exceeding the call timeout aborts the
+        // in-flight mcpd request, so the upstream tool stops too.
+        const result = await withAbortSignal(
+          extra?.signal,
+          callTimeoutFor(config, serverName, tool),
+          fullToolName,
+          () =>
+            callMcpd(
+              "callTool",
+              { server: serverName, tool },
+              () =>
+                mcpdClient.servers[serverName].callTool(
+                  tool,
+                  (request.params.arguments as Record<string, unknown>) || {},
+                ),
+              // Repeating a call is only safe for tools that say so.
+              isIdempotentTool(definition?.annotations)
+                ? mcpdOptions
+                : { breakers: catalogs.breakers },
+            ).catch(invalidateOnMissing("tools")),
+        ).finally(stopHeartbeat);
 
-      if (error instanceof TimeoutError) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Tool '${fullToolName}' execution timed out. The operation may be taking too long. Please try again.`,
-            },
-          ],
-          isError: true,
-        };
-      }
+        const converted = toCallToolResult(result, {
+          hasOutputSchema: definition?.outputSchema !== undefined,
+          structuredContent: features.structuredContent,
+        });
+        if (converted.isError) {
+          outcome = "tool_error";
+        }
+        return converted;
+      } catch (error) {
+        failure = error;
+        if (extra?.signal?.aborted) {
+          // The MCP SDK does not send responses to cancelled requests.
+          outcome = "cancelled";
+          logger.info(`Tool call ${fullToolName} cancelled`, {
+            tool: fullToolName,
+          });
+          return {
+            content: [
+              { type: "text", text: `Tool '${fullToolName}' was cancelled.` },
+            ],
+            isError: true,
+          };
+        }
+
+        outcome = toolCallErrorClass(error);
+        logger.warning(`Tool call ${fullToolName} failed`, {
+          tool: fullToolName,
+          error,
+        });
+
+        // Handle SDK-specific errors with contextual messages.
+        if (error instanceof ToolNotFoundError) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Tool '${fullToolName}' not found. Run the tools/list request to see available tools.`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-      if (error instanceof PipelineError) {
-        const flowText = error.pipelineFlow ? ` ${error.pipelineFlow}` : "";
-        const message = `Tool '${fullToolName}' pipeline${flowText} error${error.message ? `: ${error.message}` : ""}`;
+        if (error instanceof ToolExecutionError) {
+          let message = `Tool '${fullToolName}' execution failed: ${error.message}`;
+
+          // Include detailed validation errors from mcpd API.
+          if (error.errorModel?.errors && error.errorModel.errors.length > 0) {
+            const details = error.errorModel.errors
+              .map((e) => `  ${e.location}: ${e.message}`)
+              .join("\n");
+            message += `\n\nValidation errors:\n${details}`;
+          }
+
+          return {
+            content: [{ type: "text", text: message }],
+            isError: true,
+          };
+        }
+
+        if (error instanceof ServerNotFoundError) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Tool '${fullToolName}' is not available. The underlying service may have been removed or is not configured.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (error instanceof ServerUnhealthyError) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Tool '${fullToolName}' is temporarily unavailable. Please try again later.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (error instanceof ConnectionError) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Cannot connect to mcpd daemon. Please ensure mcpd is running and accessible.`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
+        if (error instanceof AuthenticationError) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Authentication failed. Please check your MCPD_API_KEY configuration.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (error instanceof TimeoutError) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Tool '${fullToolName}' execution timed out. The operation may be taking too long. Please try again.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (error instanceof PipelineError) {
+          const flowText = error.pipelineFlow ? ` ${error.pipelineFlow}` : "";
+          const message = `Tool '${fullToolName}' pipeline${flowText} error${error.message ? `: ${error.message}` : ""}`;
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: message,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        // Generic fallback for unexpected errors.
         return {
           content: [
             {
               type: "text",
-              text: message,
+              text: `Error executing tool '${fullToolName}': ${(error as Error).message}`,
             },
           ],
           isError: true,
         };
+      } finally {
+        // Failures are answered with isError results, so the span would
+        // otherwise end as successful.
+        if (outcome !== "ok") {
+          tracer
+            .activeSpan()
+            ?.fail(
+              outcome,
+              failure instanceof Error ? failure.message : undefined,
+            );
+        }
+        metrics.toolCalls.inc({ ...labels, result: outcome });
+        metrics.toolCallDuration.observe(
+          labels,
+          (performance.now() - start) / 1000,
+        );
       }
+    }),
+  );
 
-      // Generic fallback for unexpected errors.
+  server.setRequestHandler(
+    ListResourcesRequestSchema,
+    instrument("resources/list", async (request) => {
+      const page = paginate(await listResources(), {
+        list: "resources",
+        key: (resource) => resource.uri,
+        pageSize,
+        cursor: request.params?.cursor,
+      });
       return {
-        content: [
-          {
-            type: "text",
-            text: `Error executing tool '${fullToolName}': ${(error as Error).message}`,
-          },
-        ],
-        isError: true,
+        resources: page.items,
+        nextCursor: page.nextCursor,
+        ...skippedMeta("resources"),
       };
-    }
-  });
+    }),
+  );
 
-  server.setRequestHandler(ListResourcesRequestSchema, async () => {
-    // NOTE: aggregateResources() automatically filters out unhealthy servers and
-    // handles 501 Not Implemented responses. It returns resources with namespaced
-    // names (serverName__resourceName) and mcpd:// URIs.
-    const allResources = await aggregateResources(mcpdClient);
+  server.setRequestHandler(
+    ReadResourceRequestSchema,
+    instrument("resources/read", async (request) => {
+      return { contents: await readResource(request.params.uri) };
+    }),
+  );
 
-    // Transform to MCP format.
-    const mcpResources = allResources.map((resource) => ({
-      uri: resource.uri, // Already has mcpd:// URI from aggregateResources
-      name: resource.name, // Already namespaced
-      description:
-        resource.description || `Resource from ${resource._serverName} server`,
-      mimeType: resource.mimeType,
-    }));
+  if (subscriptions) {
+    server.setRequestHandler(
+      SubscribeRequestSchema,
+      instrument("resources/subscribe", async (request) => {
+        // Validate the URI up front so bad subscriptions fail immediately.
+        if (
+          request.params.uri !== STATUS_RESOURCE_URI &&
+          request.params.uri !== DIAGNOSTICS_RESOURCE_URI
+        ) {
+          const { server: serverName } = resolveResourceUri(request.params.uri);
+          assertServerAllowed(serverName);
+        }
 
-    return { resources: mcpResources };
-  });
+        await subscriptions.subscribe(request.params.uri);
+        return {};
+      }),
+    );
 
-  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-    const { server: serverName, originalUri } = parseResourceUri(
-      request.params.uri,
+    server.setRequestHandler(
+      UnsubscribeRequestSchema,
+      instrument("resources/unsubscribe", async (request) => {
+        subscriptions.unsubscribe(request.params.uri);
+        return {};
+      }),
     );
+  }
 
-    // Use SDK's server-level readResource method which handles health checks
-    // and error handling automatically.
-    const contents =
-      await mcpdClient.servers[serverName].readResource(originalUri);
+  server.setRequestHandler(
+    ListResourceTemplatesRequestSchema,
+    instrument("resources/templates/list", async (request) => {
+      const page = paginate(await listResourceTemplates(), {
+        list: "resourceTemplates",
+        key: (template) => template.uriTemplate,
+        pageSize,
+        cursor: request.params?.cursor,
+      });
+      return {
+        resourceTemplates: page.items,
+        nextCursor: page.nextCursor,
+        ...skippedMeta("resourceTemplates"),
+      };
+    }),
+  );
 
-    return { contents };
-  });
+  server.setRequestHandler(
+    ListPromptsRequestSchema,
+    instrument("prompts/list", async (request) => {
+      const page = paginate(await listPrompts(), {
+        list: "prompts",
+        key: (prompt) => prompt.name,
+        pageSize,
+        cursor: request.params?.cursor,
+      });
+      return {
+        prompts: page.items,
+        nextCursor: page.nextCursor,
+        ...skippedMeta("prompts"),
+      };
+    }),
+  );
 
-  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
-    // NOTE: aggregateResourceTemplates() automatically filters out unhealthy servers and
-    // handles 501 Not Implemented responses. It returns templates with namespaced
-    // names (serverName__templateName).
-    const allTemplates = await aggregateResourceTemplates(mcpdClient);
+  server.setRequestHandler(
+    GetPromptRequestSchema,
+    instrument("prompts/get", async (request) => {
+      // Resolve the namespaced prompt name via the name table and use
+      // server-level SDK API which handles health checks and error handling.
+      const origin = await resolveName(
+        promptNames,
+        () => refreshPrompts(true),
+        request.params.name,
+      );
+      if (!origin) {
+        throw new Error(
+          `Prompt '${request.params.name}' not found. Run the prompts/list request to see available prompts.`,
+        );
+      }
 
-    // Transform to MCP format.
-    const mcpTemplates = allTemplates.map((template) => ({
-      name: template.name, // Already namespaced
-      uriTemplate: template.uriTemplate,
-      description: template.description,
-      mimeType: template.mimeType,
-    }));
+      const { server: serverName, name: promptName } = origin;
+      assertServerAllowed(serverName);
 
-    return { resourceTemplates: mcpTemplates };
-  });
+      const result = await callMcpd(
+        "generatePrompt",
+        { server: serverName },
+        () =>
+          mcpdClient.servers[serverName].generatePrompt(
+            promptName,
+            request.params.arguments as Record<string, string> | undefined,
+          ),
+        mcpdOptions,
+      ).catch(invalidateOnMissing("prompts"));
 
-  server.setRequestHandler(ListPromptsRequestSchema, async () => {
-    // NOTE: aggregatePrompts() automatically filters out unhealthy servers and
-    // handles 501 Not Implemented responses. It returns prompts with namespaced
-    // names (serverName__promptName).
-    const allPrompts = await aggregatePrompts(mcpdClient);
+      return {
+        description: result.description,
+        messages: result.messages || [],
+      };
+    }),
+  );
 
-    return { prompts: allPrompts };
-  });
+  server.setRequestHandler(
+    CompleteRequestSchema,
+    instrument("completion/complete", async (request) => {
+      const { ref, argument } = request.params;
 
-  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
-    // Parse the namespaced prompt name (serverName__promptName) and use
-    // server-level SDK API which handles health checks and error handling.
-    const { server: serverName, name: promptName } = parsePrefixedName(
-      request.params.name,
-      "prompt",
-    );
+      if (ref.type === "ref/prompt") {
+        const origin = await resolveName(
+          promptNames,
+          () => refreshPrompts(true),
+          ref.name,
+        );
+        if (!origin) {
+          throw new Error(
+            `Prompt '${ref.name}' not found. Run the prompts/list request to see available prompts.`,
+          );
+        }
 
-    const result = await mcpdClient.servers[serverName].generatePrompt(
-      promptName,
-      request.params.arguments as Record<string, string> | undefined,
-    );
+        assertServerAllowed(origin.server);
 
-    return {
-      description: result.description,
-      messages: result.messages || [],
-    };
-  });
+        // mcpd cannot forward completions, so suggest the argument's enum
+        // values from the cached prompt definition.
+        const definition = promptDefinitions
+          .get(ref.name)
+          ?.arguments?.find((a) => a.name === argument.name);
+        const completion = completeFromValues(
+          enumValues(promptArgumentSchema(definition)),
+          argument.value,
+        );
+        return { completion };
+      }
 
-  server.setRequestHandler(PingRequestSchema, async () => {
-    // Use SDK's getServerHealth to benefit from caching and consistent error handling.
-    await mcpdClient.getServerHealth();
-    return {};
-  });
+      const templates = await refreshResourceTemplates();
+      if (!templates.some((t) => t.uriTemplate === ref.uri)) {
+        throw new Error(
+          `Resource template '${ref.uri}' not found. Run the resources/templates/list request to see available templates.`,
+        );
+      }
+
+      // MCP resource templates carry no argument schemas, so there is nothing
+      // to suggest.
+      const completion = completeFromValues([], argument.value);
+      return { completion };
+    }),
+  );
+
+  server.setRequestHandler(
+    PingRequestSchema,
+    instrument("ping", async () => {
+      // Use SDK's getServerHealth to benefit from caching and consistent error handling.
+      await callMcpd("getServerHealth", {}, () => mcpdClient.getServerHealth());
+      return {};
+    }),
+  );
 
   return server;
 }
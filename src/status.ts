@@ -0,0 +1,348 @@
+/**
+ * Proxy status for mcpd-proxy.
+ *
+ * Users inside an IDE cannot see the proxy's stderr or configuration. The
+ * status report combines mcpd's server health, the aggregated catalogs and
+ * the configuration into one view, exposed as a resource and as a tool, in
+ * both markdown (for people) and JSON (for programs).
+ */
+
+import type {
+  CallToolResult,
+  ReadResourceResult,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ServerHealth } from "@mozilla-ai/mcpd";
+import type { CatalogCacheKind, CatalogCacheMetrics } from "./catalogCache.js";
+import type { CatalogCollision, ServerFailure } from "./diagnostics.js";
+
+/** URI of the status resource. */
+export const STATUS_RESOURCE_URI = "mcpd-proxy://status";
+
+/** Name of the built-in status tool. */
+export const STATUS_TOOL_NAME = "proxy__status";
+
+/** Definition of the built-in status tool. */
+export const STATUS_TOOL: Tool = {
+  name: STATUS_TOOL_NAME,
+  title: "Proxy Status",
+  description:
+    "Show the mcpd-proxy version, mcpd address, server health, filtered servers and aggregation failures",
+  inputSchema: { type: "object", properties: {} },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+};
+
+/**
+ * Status of one mcpd server as seen by the proxy.
+ */
+export interface ServerStatus {
+  /** Server name in mcpd. */
+  name: string;
+
+  /** Health status reported by mcpd (e.g., ok, timeout, unreachable). */
+  health: string;
+
+  /** Time of mcpd's last health check (ISO 8601), if known. */
+  lastChecked?: string;
+
+  /** False if the server is hidden by includeServers/excludeServers. */
+  exposed: boolean;
+
+  /** Number of items the server contributes to each catalog. */
+  items: Record<CatalogCacheKind, number>;
+}
+
+/**
+ * Snapshot of the proxy's state.
+ */
+export interface ProxyStatus {
+  /** When the status was generated (ISO 8601). */
+  generatedAt: string;
+
+  /** The proxy itself. */
+  proxy: {
+    version: string;
+    transport: string;
+    protocolVersion: string;
+  };
+
+  /** The mcpd daemon. */
+  mcpd: {
+    /** Daemon address, without credentials. */
+    address: string;
+
+    /** Whether mcpd answered the server and health queries. */
+    reachable: boolean;
+
+    /** Why mcpd could not be queried, if it was not reachable. */
+    error?: string;
+  };
+
+  /** Every server mcpd knows about, sorted by name. */
+  servers: ServerStatus[];
+
+  /** Servers currently failing during aggregation. */
+  failures: ServerFailure[];
+
+  /** Items hidden because another item has the same exposed name. */
+  collisions: CatalogCollision[];
+
+  /** Request counts and entry age of each catalog cache. */
+  caches: Record<CatalogCacheKind, CatalogCacheMetrics>;
+}
+
+/**
+ * Inputs for {@link buildProxyStatus}.
+ */
+export interface ProxyStatusInput {
+  version: string;
+  transport: string;
+  protocolVersion: string;
+  mcpdAddr: string;
+
+  /** Server names and health from mcpd, or the error querying them. */
+  mcpd:
+    | { servers: string[]; health: Record<string, ServerHealth> }
+    | { error: unknown };
+
+  /** Whether a server is exposed by the server filters. */
+  isServerAllowed: (serverName: string) => boolean;
+
+  /** Owning server of every aggregated item, per catalog. */
+  catalogs: Record<CatalogCacheKind, Array<{ _serverName: string }>>;
+
+  failures: ServerFailure[];
+
+  collisions: CatalogCollision[];
+
+  caches: Record<CatalogCacheKind, CatalogCacheMetrics>;
+
+  /** Clock, for tests (default: current time). */
+  now?: Date;
+}
+
+/**
+ * Remove credentials from a URL so it can be shown to users.
+ *
+ * @param address - URL that may contain a user name or password
+ * @returns The URL without credentials, or the input if it is not a URL
+ */
+export function redactAddress(address: string): string {
+  if (!URL.canParse(address)) {
+    return address;
+  }
+  const url = new URL(address);
+  url.username = "";
+  url.password = "";
+  return url.toString().replace(/\/$/, "");
+}
+
+/**
+ * Build the proxy status report.
+ *
+ * @param input - mcpd state, catalogs, failures and configuration
+ * @returns Status report
+ */
+export function buildProxyStatus(input: ProxyStatusInput): ProxyStatus {
+  const { mcpd, catalogs } = input;
+  const reachable = "servers" in mcpd;
+
+  const count = (kind: CatalogCacheKind, serverName: string) =>
+    catalogs[kind].filter((item) => item._serverName === serverName).length;
+
+  const servers = reachable
+    ? [...mcpd.servers].sort().map((name): ServerStatus => ({
+        name,
+        health: mcpd.health[name]?.status ?? "unknown",
+        ...(mcpd.health[name]?.lastChecked !== undefined && {
+          lastChecked: mcpd.health[name].lastChecked,
+        }),
+        exposed: input.isServerAllowed(name),
+        items: {
+          tools: count("tools", name),
+          prompts: count("prompts", name),
+          resources: count("resources", name),
+          resourceTemplates: count("resourceTemplates", name),
+        },
+      }))
+    : [];
+
+  return {
+    generatedAt: (input.now ?? new Date()).toISOString(),
+    proxy: {
+      version: input.version,
+      transport: input.transport,
+      protocolVersion: input.protocolVersion,
+    },
+    mcpd: {
+      address: redactAddress(input.mcpdAddr),
+      reachable,
+      ...(!reachable && {
+        error:
+          mcpd.error instanceof Error ? mcpd.error.message : String(mcpd.error),
+      }),
+    },
+    servers,
+    failures: input.failures,
+    collisions: input.collisions,
+    caches: input.caches,
+  };
+}
+
+/**
+ * Render a status report as markdown.
+ *
+ * @param status - Status report
+ * @returns Markdown document
+ */
+export function renderStatusMarkdown(status: ProxyStatus): string {
+  const { proxy, mcpd, servers, failures, collisions, caches } = status;
+  const lines = [
+    "# mcpd-proxy status",
+    "",
+    `- Version: ${proxy.version}`,
+    `- Transport: ${proxy.transport}`,
+    `- Protocol version: ${proxy.protocolVersion}`,
+    `- mcpd: ${mcpd.address} (${mcpd.reachable ? "reachable" : `unreachable: ${mcpd.error}`})`,
+    `- Generated: ${status.generatedAt}`,
+    "",
+    "## Servers",
+    "",
+  ];
+
+  if (servers.length === 0) {
+    lines.push("No servers.");
+  } else {
+    lines.push(
+      "| Server | Health | Exposed | Tools | Prompts | Resources | Templates |",
+      "| --- | --- | --- | --- | --- | --- | --- |",
+      ...servers.map(
+        ({ name, health, exposed, items }) =>
+          `| ${name} | ${health} | ${exposed ? "yes" : "no (filtered)"} | ` +
+          `${items.tools} | ${items.prompts} | ${items.resources} | ${items.resourceTemplates} |`,
+      ),
+    );
+  }
+
+  lines.push("", "## Failures", "");
+  if (failures.length === 0) {
+    lines.push("None.");
+  } else {
+    lines.push(
+      ...failures.map(
+        (failure) =>
+          `- ${failure.server} (${failure.catalog}): ${failure.errorType} since ${failure.since}` +
+          `${failure.stale ? ", serving last snapshot" : ""}: ${failure.message}`,
+      ),
+    );
+  }
+
+  lines.push("", "## Name collisions", "");
+  if (collisions.length === 0) {
+    lines.push("None.");
+  } else {
+    lines.push(
+      ...collisions.map(
+        ({ catalog, name, kept, dropped }) =>
+          `- ${name} (${catalog}): '${dropped.name}' from ${dropped.server} is hidden by ` +
+          `'${kept.name}' from ${kept.server}`,
+      ),
+    );
+  }
+
+  lines.push(
+    "",
+    "## Catalog caches",
+    "",
+    "| Catalog | Age | Hits | Stale hits | Misses | Refreshes | Failed refreshes |",
+    "| --- | --- | --- | --- | --- | --- | --- |",
+    ...(Object.keys(caches) as CatalogCacheKind[]).map((kind) => {
+      const { ageMs, hits, staleHits, misses, refreshes, refreshFailures } =
+        caches[kind];
+      const age =
+        ageMs === undefined ? "empty" : `${Math.round(ageMs / 1000)}s`;
+      return `| ${kind} | ${age} | ${hits} | ${staleHits} | ${misses} | ${refreshes} | ${refreshFailures} |`;
+    }),
+  );
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * The parts of a status report that only change when the proxy's state does.
+ *
+ * Leaves out the generation time, mcpd's health check times and the cache
+ * counters, which differ on every read, so resource subscriptions can compare
+ * two reports.
+ *
+ * @param status - Status report
+ * @returns Status report without its per-read fields
+ */
+export function statusSnapshot(
+  status: ProxyStatus,
+): Omit<ProxyStatus, "generatedAt" | "caches"> {
+  return {
+    proxy: status.proxy,
+    mcpd: status.mcpd,
+    servers: status.servers.map(({ name, health, exposed, items }) => ({
+      name,
+      health,
+      exposed,
+      items,
+    })),
+    failures: status.failures,
+    collisions: status.collisions,
+  };
+}
+
+/**
+ * Render a status report as the status resource contents.
+ *
+ * @param status - Status report
+ * @returns Markdown and JSON renderings of the report
+ */
+export function statusResourceContents(
+  status: ProxyStatus,
+): ReadResourceResult["contents"] {
+  return [
+    {
+      uri: STATUS_RESOURCE_URI,
+      mimeType: "text/markdown",
+      text: renderStatusMarkdown(status),
+    },
+    {
+      uri: STATUS_RESOURCE_URI,
+      mimeType: "application/json",
+      text: JSON.stringify(status, null, 2),
+    },
+  ];
+}
+
+/**
+ * Render a status report as the status tool result.
+ *
+ * @param status - Status report
+ * @param structuredContent - Whether the client supports structuredContent
+ * @returns Markdown and JSON text, plus structuredContent when supported
+ */
+export function statusToolResult(
+  status: ProxyStatus,
+  structuredContent: boolean,
+): CallToolResult {
+  return {
+    content: [
+      { type: "text", text: renderStatusMarkdown(status) },
+      { type: "text", text: JSON.stringify(status, null, 2) },
+    ],
+    ...(structuredContent && {
+      // A plain copy, which unlike the interface fits structuredContent's
+      // index signature.
+      structuredContent: { ...status },
+    }),
+  };
+}
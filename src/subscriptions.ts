@@ -0,0 +1,170 @@
+/**
+ * Resource subscriptions for mcpd-proxy.
+ *
+ * mcpd has no resource change events, so subscriptions are implemented by
+ * polling each subscribed resource, hashing its contents and reporting a
+ * resource as updated only when the hash changes.
+ */
+
+import { createHash } from "node:crypto";
+
+/** Default polling interval for subscribed resources in milliseconds. */
+export const DEFAULT_SUBSCRIPTION_INTERVAL_MS = 5_000;
+
+/**
+ * Options for {@link ResourceSubscriptions}.
+ */
+export interface ResourceSubscriptionsOptions {
+  /** Delay between polls in milliseconds. */
+  intervalMs: number;
+
+  /** Reads the current contents of a subscribed resource. */
+  read: (uri: string) => Promise<unknown>;
+
+  /** Called when a subscribed resource's contents changed. */
+  onUpdated: (uri: string) => void | Promise<void>;
+}
+
+/**
+ * Hash resource contents for change detection.
+ *
+ * @param contents - Resource contents as returned by mcpd
+ * @returns Hex digest of the serialized contents
+ */
+export function hashContents(contents: unknown): string {
+  return createHash("sha256")
+    .update(JSON.stringify(contents) ?? "")
+    .digest("hex");
+}
+
+/**
+ * Tracks subscribed resource URIs and polls them for changes.
+ *
+ * Subscribing reads the resource once to record a baseline. Polling only runs
+ * while at least one resource is subscribed, and polls never overlap. Reads
+ * that fail (e.g., the server is unhealthy) are skipped and keep the previous
+ * baseline.
+ */
+export class ResourceSubscriptions {
+  readonly #options: ResourceSubscriptionsOptions;
+  readonly #hashes = new Map<string, string | undefined>();
+  #timer?: NodeJS.Timeout;
+  #polling = false;
+
+  constructor(options: ResourceSubscriptionsOptions) {
+    this.#options = options;
+  }
+
+  /**
+   * Subscribed resource URIs.
+   */
+  get uris(): string[] {
+    return [...this.#hashes.keys()];
+  }
+
+  /**
+   * Subscribe to a resource. Subscribing twice has no effect.
+   *
+   * @param uri - Resource URI as exposed to clients
+   */
+  async subscribe(uri: string): Promise<void> {
+    if (this.#hashes.has(uri)) {
+      return;
+    }
+    this.#hashes.set(uri, undefined);
+    this.#schedule();
+
+    await this.#check(uri);
+  }
+
+  /**
+   * Unsubscribe from a resource. Unknown URIs are ignored.
+   *
+   * @param uri - Resource URI as exposed to clients
+   */
+  unsubscribe(uri: string): void {
+    this.#hashes.delete(uri);
+    if (this.#hashes.size === 0) {
+      this.#cancel();
+    }
+  }
+
+  /**
+   * Drop every subscription and stop polling.
+   */
+  stop(): void {
+    this.#hashes.clear();
+    this.#cancel();
+  }
+
+  /**
+   * Read every subscribed resource and notify the ones that changed.
+   *
+   * @returns URIs reported as updated
+   */
+  async poll(): Promise<string[]> {
+    const results = await Promise.all(
+      this.uris.map(async (uri) => ((await this.#check(uri)) ? uri : "")),
+    );
+    return results.filter((uri) => uri !== "");
+  }
+
+  /**
+   * Read one resource, update its hash and notify if it changed.
+   *
+   * @returns True if the resource was reported as updated
+   */
+  async #check(uri: string): Promise<boolean> {
+    let hash: string;
+    try {
+      hash = hashContents(await this.#options.read(uri));
+    } catch {
+      // Keep the previous baseline; the next poll retries.
+      return false;
+    }
+
+    // The client may have unsubscribed while the read was in flight.
+    if (!this.#hashes.has(uri)) {
+      return false;
+    }
+
+    const previous = this.#hashes.get(uri);
+    this.#hashes.set(uri, hash);
+    if (previous === undefined || previous === hash) {
+      return false;
+    }
+
+    await this.#options.onUpdated(uri);
+    return true;
+  }
+
+  #schedule(): void {
+    if (this.#timer || this.#polling) {
+      return;
+    }
+    this.#timer = setTimeout(() => void this.#tick(), this.#options.intervalMs);
+    // Don't keep the process alive just to poll.
+    this.#timer.unref();
+  }
+
+  #cancel(): void {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+  }
+
+  async #tick(): Promise<void> {
+    this.#timer = undefined;
+    this.#polling = true;
+    try {
+      await this.poll();
+    } catch {
+      // Notification failures must not stop polling.
+    } finally {
+      this.#polling = false;
+    }
+
+    if (this.#hashes.size > 0) {
+      this.#schedule();
+    }
+  }
+}
@@ -0,0 +1,536 @@
+/**
+ * Request tracing for mcpd-proxy.
+ *
+ * A slow tool call can spend its time in the proxy, in mcpd or in the
+ * upstream server. Every MCP request and every mcpd call is recorded as a
+ * span, following the OpenTelemetry data model, and exported as OTLP/JSON
+ * to a collector or to a local file. The active span travels with the async
+ * context, and calls to mcpd carry it in a W3C traceparent header so mcpd
+ * can continue the trace.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import { appendFile } from "node:fs/promises";
+import type { Config } from "./config.js";
+import { logger } from "./logger.js";
+import { addMcpdRequestHook } from "./mcpdFetch.js";
+
+/** Service name reported in exported spans. */
+export const SERVICE_NAME = "mcpd-proxy";
+
+/** Header carrying the trace context (W3C Trace Context). */
+export const TRACEPARENT_HEADER = "traceparent";
+
+/** Default number of ended spans buffered before an export. */
+export const DEFAULT_BATCH_SIZE = 512;
+
+/** Default time in milliseconds ended spans wait for an export. */
+export const DEFAULT_FLUSH_INTERVAL_MS = 5_000;
+
+/**
+ * Role of a span: "server" for MCP requests handled by the proxy, "client"
+ * for calls to mcpd, "internal" for anything else.
+ */
+export type SpanKind = "internal" | "server" | "client";
+
+/** Span attribute values, as supported by OTLP. */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Identifies a span within a trace.
+ */
+export interface SpanContext {
+  /** 32 lowercase hex characters. */
+  traceId: string;
+
+  /** 16 lowercase hex characters. */
+  spanId: string;
+}
+
+/**
+ * A finished span, as handed to exporters.
+ */
+export interface SpanData {
+  context: SpanContext;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+
+  /** Start and end times in milliseconds since the epoch (fractional). */
+  startTime: number;
+  endTime: number;
+
+  attributes: SpanAttributes;
+
+  /** "unset" unless the span's work succeeded ("ok") or failed ("error"). */
+  status: { code: "unset" | "ok" | "error"; message?: string };
+}
+
+/**
+ * Receives batches of finished spans.
+ */
+export interface SpanExporter {
+  export(spans: SpanData[]): Promise<void>;
+}
+
+/**
+ * A span in progress.
+ */
+export class Span {
+  readonly context: SpanContext;
+  readonly parentSpanId?: string;
+  readonly name: string;
+  readonly kind: SpanKind;
+  readonly startTime: number;
+  readonly attributes: SpanAttributes;
+  status: SpanData["status"] = { code: "unset" };
+
+  constructor(
+    name: string,
+    kind: SpanKind,
+    parent: SpanContext | undefined,
+    startTime: number,
+    attributes: SpanAttributes = {},
+  ) {
+    this.context = {
+      traceId: parent?.traceId ?? randomHex(16),
+      spanId: randomHex(8),
+    };
+    this.parentSpanId = parent?.spanId;
+    this.name = name;
+    this.kind = kind;
+    this.startTime = startTime;
+    this.attributes = { ...attributes };
+  }
+
+  /**
+   * Add or overwrite attributes.
+   *
+   * @param attributes - Attributes to set
+   */
+  setAttributes(attributes: SpanAttributes): void {
+    Object.assign(this.attributes, attributes);
+  }
+
+  /**
+   * Mark the span as failed, recording the error class as error.type.
+   *
+   * @param error - Error the span's work failed with
+   */
+  recordError(error: unknown): void {
+    this.fail(
+      error instanceof Error ? error.name : typeof error,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+
+  /**
+   * Mark the span as failed without an exception, e.g. for a request that
+   * answers with an error result.
+   *
+   * @param errorType - Error class or kind, recorded as error.type
+   * @param message - Status message
+   */
+  fail(errorType: string, message?: string): void {
+    this.setAttributes({ outcome: "error", "error.type": errorType });
+    this.status = {
+      code: "error",
+      ...(message !== undefined && { message }),
+    };
+  }
+}
+
+/**
+ * Options for {@link Tracer}.
+ */
+export interface TracerOptions {
+  /** Destinations for finished spans; tracing is off without any. */
+  exporters?: SpanExporter[];
+
+  /** Spans buffered before an export (default: 512). */
+  batchSize?: number;
+
+  /** Time in milliseconds spans wait for an export (default: 5000). */
+  flushIntervalMs?: number;
+
+  /** Clock in milliseconds since the epoch, for tests. */
+  now?: () => number;
+}
+
+/**
+ * Options for {@link Tracer.withSpan}.
+ */
+export interface SpanOptions {
+  /** Span kind (default: internal). */
+  kind?: SpanKind;
+
+  /** Initial attributes. */
+  attributes?: SpanAttributes;
+
+  /**
+   * Parent from outside the process (e.g., an incoming traceparent header),
+   * used when no span is active.
+   */
+  parent?: SpanContext;
+}
+
+/**
+ * Records spans and exports them in batches.
+ *
+ * Without exporters, no spans are created and {@link Tracer.withSpan} just
+ * runs its callback.
+ */
+export class Tracer {
+  #exporters: SpanExporter[];
+  readonly #batchSize: number;
+  readonly #flushIntervalMs: number;
+  readonly #now: () => number;
+  readonly #active = new AsyncLocalStorage<Span>();
+  #buffer: SpanData[] = [];
+  #timer?: NodeJS.Timeout;
+
+  constructor(options: TracerOptions = {}) {
+    this.#exporters = options.exporters ?? [];
+    this.#batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.#flushIntervalMs =
+      options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+    this.#now =
+      options.now ?? (() => performance.timeOrigin + performance.now());
+  }
+
+  /**
+   * Whether spans are recorded.
+   */
+  get enabled(): boolean {
+    return this.#exporters.length > 0;
+  }
+
+  /**
+   * Replace the exporters.
+   *
+   * @param options - New exporters; an empty list turns tracing off
+   */
+  configure(options: { exporters: SpanExporter[] }): void {
+    this.#exporters = options.exporters;
+  }
+
+  /**
+   * The span of the current async context, if any.
+   */
+  activeSpan(): Span | undefined {
+    return this.#active.getStore();
+  }
+
+  /**
+   * Run a function inside a new span, which is the active span for
+   * everything the function awaits. The span records the outcome and, on
+   * failure, the error class; errors are rethrown. A span the function marked
+   * as failed stays failed when it returns.
+   *
+   * @param name - Span name
+   * @param options - Kind, attributes and remote parent
+   * @param fn - Work to trace; receives the span when tracing is on
+   * @returns Result of the function
+   */
+  async withSpan<T>(
+    name: string,
+    options: SpanOptions,
+    fn: (span?: Span) => Promise<T>,
+  ): Promise<T> {
+    if (!this.enabled) {
+      return fn();
+    }
+
+    const parent = this.activeSpan()?.context ?? options.parent;
+    const span = new Span(
+      name,
+      options.kind ?? "internal",
+      parent,
+      this.#now(),
+      options.attributes,
+    );
+    try {
+      const result = await this.#active.run(span, () => fn(span));
+      if (span.status.code === "unset") {
+        span.setAttributes({ outcome: "ok" });
+        span.status = { code: "ok" };
+      }
+      return result;
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      this.#end(span);
+    }
+  }
+
+  /**
+   * Export every buffered span now.
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+    const spans = this.#buffer;
+    this.#buffer = [];
+    if (spans.length === 0) {
+      return;
+    }
+
+    await Promise.all(
+      this.#exporters.map((exporter) =>
+        exporter.export(spans).catch((error: unknown) => {
+          logger.warning(`Failed to export ${spans.length} spans`, { error });
+        }),
+      ),
+    );
+  }
+
+  #end(span: Span): void {
+    this.#buffer.push({
+      context: span.context,
+      ...(span.parentSpanId !== undefined && {
+        parentSpanId: span.parentSpanId,
+      }),
+      name: span.name,
+      kind: span.kind,
+      startTime: span.startTime,
+      endTime: this.#now(),
+      attributes: { ...span.attributes },
+      status: span.status,
+    });
+
+    if (this.#buffer.length >= this.#batchSize) {
+      void this.flush();
+    } else if (!this.#timer) {
+      this.#timer = setTimeout(() => void this.flush(), this.#flushIntervalMs);
+      // Pending spans must not keep the process alive.
+      this.#timer.unref();
+    }
+  }
+}
+
+/** Process-wide tracer, configured at startup (see src/index.ts). */
+export const tracer = new Tracer();
+
+/** Random lowercase hex string of the given number of bytes. */
+function randomHex(bytes: number): string {
+  return randomBytes(bytes).toString("hex");
+}
+
+/**
+ * Render a span context as a W3C traceparent header value (sampled).
+ *
+ * @param context - Span context
+ * @returns Header value, e.g. "00-<traceId>-<spanId>-01"
+ */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-01`;
+}
+
+/**
+ * Parse a W3C traceparent header value.
+ *
+ * @param value - Header value
+ * @returns The span context, or undefined if the value is missing or invalid
+ */
+export function parseTraceparent(
+  value: string | undefined,
+): SpanContext | undefined {
+  const match = /^[\da-f]{2}-([\da-f]{32})-([\da-f]{16})-[\da-f]{2}$/.exec(
+    value?.trim().toLowerCase() ?? "",
+  );
+  if (!match || /^0+$/.test(match[1]!) || /^0+$/.test(match[2]!)) {
+    return undefined;
+  }
+  return { traceId: match[1]!, spanId: match[2]! };
+}
+
+/**
+ * Make fetch add the active span's traceparent header to requests to mcpd.
+ * The mcpd SDK calls the global fetch and takes no extra headers, so this
+ * hooks the global fetch (see mcpdFetch.ts); requests to other hosts, such as
+ * the OTLP exporter's, and requests made outside a span pass through as is.
+ *
+ * @param baseUrl - mcpd address
+ * @param activeSpan - Returns the span to propagate (default: the tracer's)
+ * @param target - Object owning fetch (default: globalThis)
+ * @returns Function that removes the hook
+ */
+export function propagateTraceContext(
+  baseUrl: string,
+  activeSpan: () => Span | undefined = () => tracer.activeSpan(),
+  target?: { fetch: typeof fetch },
+): () => void {
+  return addMcpdRequestHook(
+    baseUrl,
+    (input, init) => {
+      const span = activeSpan();
+      if (!span) {
+        return undefined;
+      }
+      const headers = new Headers(
+        init?.headers ?? (input instanceof Request ? input.headers : undefined),
+      );
+      headers.set(TRACEPARENT_HEADER, formatTraceparent(span.context));
+      return { ...init, headers };
+    },
+    target,
+  );
+}
+
+/** OTLP span kinds (SPAN_KIND_INTERNAL, _SERVER, _CLIENT). */
+const OTLP_SPAN_KINDS: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+};
+
+/** OTLP status codes (STATUS_CODE_UNSET, _OK, _ERROR). */
+const OTLP_STATUS_CODES: Record<SpanData["status"]["code"], number> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+/** Render attributes as OTLP key/value pairs. */
+function toOtlpAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === "string"
+        ? { stringValue: value }
+        : typeof value === "boolean"
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value },
+  }));
+}
+
+/** Render milliseconds since the epoch as OTLP nanoseconds. */
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1_000)) * 1_000n).toString();
+}
+
+/**
+ * Render spans as an OTLP/JSON ExportTraceServiceRequest.
+ *
+ * @param spans - Finished spans
+ * @param version - Proxy version, reported as service.version
+ * @returns Request body for an OTLP/HTTP traces endpoint
+ */
+export function toOtlpJson(spans: SpanData[], version: string) {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: toOtlpAttributes({
+            "service.name": SERVICE_NAME,
+            "service.version": version,
+          }),
+        },
+        scopeSpans: [
+          {
+            scope: { name: SERVICE_NAME, version },
+            spans: spans.map((span) => ({
+              traceId: span.context.traceId,
+              spanId: span.context.spanId,
+              ...(span.parentSpanId !== undefined && {
+                parentSpanId: span.parentSpanId,
+              }),
+              name: span.name,
+              kind: OTLP_SPAN_KINDS[span.kind],
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime),
+              attributes: toOtlpAttributes(span.attributes),
+              status: {
+                code: OTLP_STATUS_CODES[span.status.code],
+                ...(span.status.message !== undefined && {
+                  message: span.status.message,
+                }),
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Exports spans to an OTLP/HTTP traces endpoint as JSON.
+ */
+export class OtlpHttpExporter implements SpanExporter {
+  readonly #endpoint: string;
+  readonly #version: string;
+
+  /**
+   * @param endpoint - Traces endpoint, e.g. http://localhost:4318/v1/traces
+   * @param version - Proxy version, reported as service.version
+   */
+  constructor(endpoint: string, version: string) {
+    this.#endpoint = endpoint;
+    this.#version = version;
+  }
+
+  async export(spans: SpanData[]): Promise<void> {
+    const response = await fetch(this.#endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(toOtlpJson(spans, this.#version)),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `OTLP endpoint answered ${response.status} ${response.statusText}`,
+      );
+    }
+  }
+}
+
+/**
+ * Appends spans to a file, one OTLP/JSON ExportTraceServiceRequest per line
+ * (the format of the OpenTelemetry Collector's file exporter, which its
+ * otlpjsonfile receiver can replay).
+ */
+export class JsonFileExporter implements SpanExporter {
+  readonly #path: string;
+  readonly #version: string;
+
+  /**
+   * @param path - File to append to; created if missing
+   * @param version - Proxy version, reported as service.version
+   */
+  constructor(path: string, version: string) {
+    this.#path = path;
+    this.#version = version;
+  }
+
+  async export(spans: SpanData[]): Promise<void> {
+    await appendFile(
+      this.#path,
+      `${JSON.stringify(toOtlpJson(spans, this.#version))}\n`,
+    );
+  }
+}
+
+/**
+ * Create the span exporters enabled in the configuration.
+ *
+ * @param config - Configuration with the OTLP endpoint and trace file
+ * @param version - Proxy version, reported as service.version
+ * @returns Exporters; empty when tracing is not configured
+ */
+export function createSpanExporters(
+  config: Pick<Config, "otlpEndpoint" | "traceFile">,
+  version: string,
+): SpanExporter[] {
+  return [
+    ...(config.otlpEndpoint
+      ? [new OtlpHttpExporter(config.otlpEndpoint, version)]
+      : []),
+    ...(config.traceFile
+      ? [new JsonFileExporter(config.traceFile, version)]
+      : []),
+  ];
+}
@@ -0,0 +1,120 @@
+/**
+ * Catalog change watcher for mcpd-proxy.
+ *
+ * Periodically snapshots the aggregated catalogs (which reflect mcpd's server
+ * set and health), diffs them against the previous snapshot, and reports
+ * which kinds changed so the MCP server can emit list_changed notifications.
+ */
+
+/** Default polling interval for catalog changes in milliseconds. */
+export const DEFAULT_WATCH_INTERVAL_MS = 30_000;
+
+/**
+ * Catalog kinds with their own list_changed notification.
+ */
+export type CatalogKind = "tools" | "prompts" | "resources";
+
+/**
+ * A point-in-time view of every catalog kind.
+ */
+export type CatalogSnapshot = Record<CatalogKind, unknown>;
+
+/**
+ * Options for {@link CatalogWatcher}.
+ */
+export interface CatalogWatcherOptions {
+  /** Delay between polls in milliseconds. */
+  intervalMs: number;
+
+  /** Produces the current catalogs. */
+  snapshot: () => Promise<CatalogSnapshot>;
+
+  /** Called once per kind that changed since the previous poll. */
+  onChange: (kind: CatalogKind) => void | Promise<void>;
+}
+
+/**
+ * Polls catalogs and reports changes.
+ *
+ * The first successful poll only records a baseline. Polls that fail (e.g.,
+ * mcpd is unreachable) are skipped and keep the previous baseline. Polls never
+ * overlap: the next one is scheduled after the current one finishes.
+ */
+export class CatalogWatcher {
+  readonly #options: CatalogWatcherOptions;
+  #fingerprints?: Record<CatalogKind, string>;
+  #timer?: NodeJS.Timeout;
+  #running = false;
+  /** Bumped on every start so a poll left over from before a stop ends. */
+  #generation = 0;
+
+  constructor(options: CatalogWatcherOptions) {
+    this.#options = options;
+  }
+
+  /**
+   * Start polling. Calling start on a running watcher has no effect.
+   */
+  start(): void {
+    if (this.#running) {
+      return;
+    }
+    this.#running = true;
+    void this.#tick(++this.#generation);
+  }
+
+  /**
+   * Stop polling.
+   */
+  stop(): void {
+    this.#running = false;
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+  }
+
+  /**
+   * Take a snapshot, diff it against the previous one and notify changes.
+   *
+   * @returns Kinds that changed (empty for the baseline poll)
+   * @throws Error if the snapshot could not be taken
+   */
+  async poll(): Promise<CatalogKind[]> {
+    const snapshot = await this.#options.snapshot();
+    const fingerprints = {
+      tools: JSON.stringify(snapshot.tools),
+      prompts: JSON.stringify(snapshot.prompts),
+      resources: JSON.stringify(snapshot.resources),
+    };
+
+    const previous = this.#fingerprints;
+    this.#fingerprints = fingerprints;
+    if (!previous) {
+      return [];
+    }
+
+    const changed = (Object.keys(fingerprints) as CatalogKind[]).filter(
+      (kind) => fingerprints[kind] !== previous[kind],
+    );
+    for (const kind of changed) {
+      await this.#options.onChange(kind);
+    }
+    return changed;
+  }
+
+  async #tick(generation: number): Promise<void> {
+    try {
+      await this.poll();
+    } catch {
+      // Keep the previous baseline; the next poll retries.
+    }
+
+    if (this.#running && generation === this.#generation) {
+      this.#timer = setTimeout(
+        () => void this.#tick(generation),
+        this.#options.intervalMs,
+      );
+      // Don't keep the process alive just to poll.
+      this.#timer.unref();
+    }
+  }
+}
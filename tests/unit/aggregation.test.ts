@@ -226,6 +226,48 @@ describe("Aggregation Functions", () => {
       expect(result[0]?.name).toBe("server1__tool1");
     });
 
+    it("should report skipped servers and serve their last snapshot", async () => {
+      vi.mocked(mockClient.listServers).mockResolvedValue(["server1"]);
+      vi.mocked<() => Promise<Record<string, ServerHealth>>>(
+        mockClient.getServerHealth,
+      ).mockResolvedValue({
+        server1: { name: "server1", status: "ok" },
+      });
+
+      const getTools = vi
+        .fn()
+        .mockResolvedValueOnce([
+          { name: "tool1", inputSchema: { type: "object" } },
+        ])
+        .mockRejectedValueOnce(new Error("Server error"));
+      (mockClient as { servers: unknown }).servers = new Proxy(
+        {},
+        { get: () => ({ getTools }) },
+      ) as McpdClient["servers"];
+
+      const onSkipped = vi.fn();
+      const options = { snapshots: new Map(), onSkipped };
+      await aggregateTools(mockClient, undefined, undefined, options);
+      const result = await aggregateTools(
+        mockClient,
+        undefined,
+        undefined,
+        options,
+      );
+
+      expect(result.map((tool) => tool.name)).toEqual(["server1__tool1"]);
+      expect(onSkipped).toHaveBeenNthCalledWith(1, []);
+      expect(onSkipped).toHaveBeenNthCalledWith(2, [
+        {
+          server: "server1",
+          reason: "error",
+          errorType: "Error",
+          message: "Server error",
+          stale: true,
+        },
+      ]);
+    });
+
     it("should preserve tool metadata", async () => {
       vi.mocked(mockClient.listServers).mockResolvedValue(["server1"]);
       vi.mocked<() => Promise<Record<string, ServerHealth>>>(
@@ -748,5 +790,33 @@ describe("Aggregation Functions", () => {
       expect(result[0]?.description).toBe("Access files by path");
       expect(result[0]?.mimeType).toBe("application/octet-stream");
     });
+
+    it("should rewrite URI templates to the mcpd://server/ form", async () => {
+      vi.mocked(mockClient.listServers).mockResolvedValue(["files"]);
+      vi.mocked<() => Promise<Record<string, ServerHealth>>>(
+        mockClient.getServerHealth,
+      ).mockResolvedValue({
+        files: { name: "files", status: "ok" },
+      });
+
+      const mockGetResourceTemplates = vi
+        .fn()
+        .mockResolvedValue([
+          { uriTemplate: "file:///{path}{?rev}", name: "file_template" },
+        ]);
+
+      (mockClient as { servers: unknown }).servers = new Proxy(
+        {},
+        {
+          get: () => ({ getResourceTemplates: mockGetResourceTemplates }),
+        },
+      ) as McpdClient["servers"];
+
+      const result = await aggregateResourceTemplates(mockClient);
+
+      expect(result[0]?.uriTemplate).toBe("mcpd://files/file:///{path}{?rev}");
+      expect(result[0]?._serverName).toBe("files");
+      expect(result[0]?._originalUriTemplate).toBe("file:///{path}{?rev}");
+    });
   });
 });
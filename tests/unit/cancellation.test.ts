@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from "vitest";
+import { TimeoutError } from "@mozilla-ai/mcpd";
+import {
+  callTimeoutFor,
+  MCPD_REQUEST_TIMEOUT_MS,
+  mcpdRequestTimeout,
+  propagateAbortSignal,
+  withAbortSignal,
+} from "../../src/cancellation";
+
+/** A fetch that hangs until its request is aborted, like fetch does. */
+function createFetch() {
+  return vi.fn(
+    (_input: string | URL | Request, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        const abort = () => reject(new DOMException("aborted", "AbortError"));
+        if (init?.signal?.aborted) {
+          abort();
+        }
+        init?.signal?.addEventListener("abort", abort);
+      }),
+  );
+}
+
+describe("callTimeoutFor", () => {
+  const config = {
+    callTimeoutMs: 20_000,
+    callTimeouts: { github: 60_000, github__search: 5_000 },
+  };
+
+  it("should prefer the tool, then the server, then the default", () => {
+    expect(callTimeoutFor(config, "github", "search")).toBe(5_000);
+    expect(callTimeoutFor(config, "github", "create_issue")).toBe(60_000);
+    expect(callTimeoutFor(config, "jira", "search")).toBe(20_000);
+    expect(callTimeoutFor({}, "jira", "search")).toBe(0);
+  });
+
+  it("should raise the mcpd request timeout to the longest call timeout", () => {
+    expect(mcpdRequestTimeout({})).toBe(MCPD_REQUEST_TIMEOUT_MS);
+    expect(mcpdRequestTimeout(config)).toBe(60_000);
+  });
+});
+
+describe("withAbortSignal", () => {
+  it("should abort mcpd requests when the signal aborts", async () => {
+    const fetch = createFetch();
+    const target = { fetch };
+    const restore = propagateAbortSignal("http://mcpd", undefined, target);
+    const controller = new AbortController();
+
+    const call = withAbortSignal(controller.signal, 0, "github__search", () =>
+      target.fetch("http://mcpd/api/v1/servers", {
+        signal: new AbortController().signal,
+      }),
+    );
+    controller.abort();
+    restore();
+
+    await expect(call).rejects.toThrow("aborted");
+    expect(fetch.mock.calls[0]?.[1]?.signal?.aborted).toBe(true);
+  });
+
+  it("should fail with a TimeoutError when the timeout elapses", async () => {
+    const fetch = createFetch();
+    const target = { fetch };
+    const restore = propagateAbortSignal("http://mcpd", undefined, target);
+
+    const call = withAbortSignal(undefined, 10, "github__search", () =>
+      target.fetch("http://mcpd/api/v1/servers"),
+    );
+
+    await expect(call).rejects.toThrow(TimeoutError);
+    await expect(call).rejects.toThrow("github__search timed out after 10ms");
+    restore();
+  });
+
+  it("should abort at once when the signal already aborted", async () => {
+    const fetch = createFetch();
+    const target = { fetch };
+    const restore = propagateAbortSignal("http://mcpd", undefined, target);
+
+    const call = withAbortSignal(AbortSignal.abort(), 0, "search", () =>
+      target.fetch("http://mcpd/api/v1/servers"),
+    );
+    restore();
+
+    expect(fetch.mock.calls[0]?.[1]?.signal?.aborted).toBe(true);
+    await expect(call).rejects.toThrow("aborted");
+  });
+});
+
+describe("propagateAbortSignal", () => {
+  it("should only change requests for the base URL inside a call", async () => {
+    const fetch = vi.fn(
+      async (_input: string | URL | Request, _init?: RequestInit) =>
+        new Response("{}"),
+    );
+    const target = { fetch };
+    const restore = propagateAbortSignal("http://mcpd", undefined, target);
+
+    await target.fetch("http://mcpd/api/v1/servers");
+    await withAbortSignal(new AbortController().signal, 0, "search", () =>
+      target.fetch("http://collector:4318/v1/traces"),
+    );
+    await withAbortSignal(new AbortController().signal, 0, "search", () =>
+      target.fetch("http://mcpd/api/v1/servers"),
+    );
+    restore();
+
+    expect(fetch.mock.calls[0]?.[1]?.signal).toBeUndefined();
+    expect(fetch.mock.calls[1]?.[1]?.signal).toBeUndefined();
+    expect(fetch.mock.calls[2]?.[1]?.signal).toBeInstanceOf(AbortSignal);
+    expect(target.fetch).toBe(fetch);
+  });
+});
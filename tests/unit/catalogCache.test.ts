@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from "vitest";
+import { CatalogCache } from "../../src/catalogCache";
+
+function clock(start = 0) {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+describe("CatalogCache", () => {
+  it("should load on the first request and serve hits while fresh", async () => {
+    const { now, advance } = clock();
+    const load = vi.fn().mockResolvedValue(["a"]);
+    const cache = new CatalogCache({ ttlMs: 1000, load, now });
+
+    expect(await cache.get()).toEqual(["a"]);
+    advance(500);
+    expect(await cache.get()).toEqual(["a"]);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(cache.metrics).toEqual({
+      hits: 1,
+      staleHits: 0,
+      misses: 1,
+      refreshes: 1,
+      refreshFailures: 0,
+      ageMs: 500,
+    });
+  });
+
+  it("should report how each request was served", async () => {
+    const { now, advance } = clock();
+    const onRequest = vi.fn();
+    const cache = new CatalogCache({
+      ttlMs: 1000,
+      load: vi.fn().mockResolvedValue(["a"]),
+      onRequest,
+      now,
+    });
+
+    await cache.get();
+    await cache.get();
+    advance(1500);
+    await cache.get();
+
+    expect(onRequest.mock.calls).toEqual([["miss"], ["hit"], ["stale_hit"]]);
+  });
+
+  it("should serve stale entries and refresh in the background", async () => {
+    const { now, advance } = clock();
+    let resolveRefresh: (value: string[]) => void = () => {};
+    const load = vi
+      .fn()
+      .mockResolvedValueOnce(["old"])
+      .mockImplementationOnce(
+        () => new Promise((resolve) => (resolveRefresh = resolve)),
+      );
+    const cache = new CatalogCache({ ttlMs: 1000, load, now });
+
+    await cache.get();
+    advance(1500);
+
+    // The stale entry is returned without waiting for the slow refresh.
+    expect(await cache.get()).toEqual(["old"]);
+    expect(load).toHaveBeenCalledTimes(2);
+
+    resolveRefresh(["new"]);
+    await vi.waitFor(() => expect(cache.metrics.refreshes).toBe(2));
+    expect(await cache.get()).toEqual(["new"]);
+    expect(cache.metrics.staleHits).toBe(1);
+    expect(cache.metrics.ageMs).toBe(0);
+  });
+
+  it("should wait for a reload of expired entries when revalidating", async () => {
+    const { now, advance } = clock();
+    const load = vi
+      .fn()
+      .mockResolvedValueOnce(["old"])
+      .mockResolvedValueOnce(["new"]);
+    const cache = new CatalogCache({ ttlMs: 1000, load, now });
+
+    await cache.get();
+    advance(500);
+    expect(await cache.revalidate()).toEqual(["old"]);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    advance(1000);
+    expect(await cache.revalidate()).toEqual(["new"]);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep the stale entry when a background refresh fails", async () => {
+    const { now, advance } = clock();
+    const load = vi
+      .fn()
+      .mockResolvedValueOnce(["old"])
+      .mockRejectedValueOnce(new Error("mcpd down"));
+    const cache = new CatalogCache({ ttlMs: 1000, load, now });
+
+    await cache.get();
+    advance(1500);
+    expect(await cache.get()).toEqual(["old"]);
+
+    await vi.waitFor(() => expect(cache.metrics.refreshFailures).toBe(1));
+    expect(cache.metrics.ageMs).toBe(1500);
+  });
+
+  it("should report load failures when there is no entry", async () => {
+    const load = vi.fn().mockRejectedValue(new Error("mcpd down"));
+    const cache = new CatalogCache({ ttlMs: 1000, load });
+
+    await expect(cache.get()).rejects.toThrow("mcpd down");
+    expect(cache.metrics.misses).toBe(1);
+    expect(cache.metrics.ageMs).toBeUndefined();
+  });
+
+  it("should share concurrent loads", async () => {
+    const load = vi.fn().mockResolvedValue(["a"]);
+    const cache = new CatalogCache({ ttlMs: 1000, load });
+
+    await Promise.all([cache.get(), cache.get(), cache.refresh()]);
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("should load again after invalidation", async () => {
+    const load = vi
+      .fn()
+      .mockResolvedValueOnce(["a"])
+      .mockResolvedValueOnce(["b"]);
+    const cache = new CatalogCache({ ttlMs: 1000, load });
+
+    await cache.get();
+    cache.invalidate();
+
+    expect(cache.metrics.ageMs).toBeUndefined();
+    expect(await cache.get()).toEqual(["b"]);
+    expect(cache.metrics.misses).toBe(2);
+  });
+
+  it("should not store a load that finished after invalidation", async () => {
+    let resolveLoad: (value: string[]) => void = () => {};
+    const load = vi
+      .fn()
+      .mockImplementationOnce(
+        () => new Promise((resolve) => (resolveLoad = resolve)),
+      )
+      .mockResolvedValueOnce(["b"]);
+    const cache = new CatalogCache({ ttlMs: 1000, load });
+
+    const first = cache.get();
+    cache.invalidate();
+    resolveLoad(["a"]);
+    await first;
+
+    expect(await cache.get()).toEqual(["b"]);
+  });
+
+  it("should always load when the TTL is 0", async () => {
+    const load = vi.fn().mockResolvedValue(["a"]);
+    const cache = new CatalogCache({ ttlMs: 0, load });
+
+    await cache.get();
+    await cache.get();
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  ConnectionError,
+  ServerUnhealthyError,
+  TimeoutError,
+  ToolExecutionError,
+} from "@mozilla-ai/mcpd";
+import {
+  CircuitBreakers,
+  CircuitOpenError,
+  isServerFailure,
+} from "../../src/circuitBreaker";
+
+const unhealthy = () =>
+  new ServerUnhealthyError("Server is unhealthy", "github", "timeout");
+
+describe("isServerFailure", () => {
+  it("should count unhealthy servers and timeouts only", () => {
+    expect(isServerFailure(unhealthy())).toBe(true);
+    expect(isServerFailure(new TimeoutError("Timed out", "callTool", 10))).toBe(
+      true,
+    );
+    expect(isServerFailure(new CircuitOpenError("github"))).toBe(false);
+    expect(isServerFailure(new ToolExecutionError("Bad", "github"))).toBe(
+      false,
+    );
+    expect(isServerFailure(new ConnectionError("Connection refused"))).toBe(
+      false,
+    );
+  });
+});
+
+describe("CircuitBreakers", () => {
+  let now: number;
+  let breakers: CircuitBreakers;
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    now = 0;
+    breakers = new CircuitBreakers({
+      threshold: 2,
+      cooldownMs: 1_000,
+      now: () => now,
+    });
+  });
+
+  afterEach(() => {
+    vi.mocked(console.error).mockRestore();
+  });
+
+  function fail(server = "github") {
+    breakers.admit(server);
+    breakers.record(server, unhealthy());
+  }
+
+  it("should open after consecutive failures and reject calls", () => {
+    fail();
+    expect(breakers.isOpen("github")).toBe(false);
+
+    fail();
+
+    expect(breakers.isOpen("github")).toBe(true);
+    expect(breakers.openServers()).toEqual(["github"]);
+    expect(() => breakers.admit("github")).toThrow(CircuitOpenError);
+    expect(() => breakers.admit("github")).toThrow(
+      "Server 'github' is temporarily unavailable after repeated failures",
+    );
+    expect(() => breakers.admit("jira")).not.toThrow();
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Circuit for server 'github' opened after 2 consecutive failures",
+      ),
+    );
+  });
+
+  it("should reset the count when a call succeeds", () => {
+    fail();
+    breakers.admit("github");
+    breakers.record("github");
+    fail();
+
+    expect(breakers.isOpen("github")).toBe(false);
+    expect(breakers.circuits()).toEqual([
+      expect.objectContaining({ server: "github", failures: 1 }),
+    ]);
+  });
+
+  it("should treat errors from an answering server as successes", () => {
+    fail();
+    breakers.admit("github");
+    breakers.record("github", new ToolExecutionError("Bad", "github"));
+    fail();
+
+    expect(breakers.isOpen("github")).toBe(false);
+  });
+
+  it("should admit one probe after the cooldown", () => {
+    fail();
+    fail();
+    now = 1_000;
+
+    expect(breakers.isOpen("github")).toBe(false);
+    breakers.admit("github");
+    expect(() => breakers.admit("github")).toThrow(CircuitOpenError);
+    expect(breakers.circuits()).toEqual([
+      expect.objectContaining({ server: "github", state: "half-open" }),
+    ]);
+  });
+
+  it("should close when the probe succeeds", () => {
+    fail();
+    fail();
+    now = 1_000;
+
+    breakers.admit("github");
+    breakers.record("github");
+
+    expect(breakers.circuits()).toEqual([]);
+    expect(() => breakers.admit("github")).not.toThrow();
+  });
+
+  it("should reopen when the probe fails", () => {
+    fail();
+    fail();
+    now = 1_000;
+
+    fail();
+
+    expect(breakers.isOpen("github")).toBe(true);
+    expect(breakers.circuits()).toEqual([
+      {
+        server: "github",
+        state: "open",
+        failures: 3,
+        openedAt: new Date(1_000).toISOString(),
+        errorType: "ServerUnhealthyError",
+        message: "Server is unhealthy",
+      },
+    ]);
+  });
+
+  it("should admit another probe when one ends without a verdict", () => {
+    fail();
+    fail();
+    now = 1_000;
+
+    breakers.admit("github");
+    breakers.record("github", new ConnectionError("Connection refused"));
+    breakers.admit("github");
+    breakers.release("github");
+
+    expect(() => breakers.admit("github")).not.toThrow();
+  });
+
+  it("should do nothing when disabled", () => {
+    breakers = new CircuitBreakers({ threshold: 0, cooldownMs: 1_000 });
+
+    for (let i = 0; i < 10; i++) {
+      fail();
+    }
+
+    expect(breakers.enabled).toBe(false);
+    expect(breakers.isOpen("github")).toBe(false);
+    expect(breakers.circuits()).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  completeFromValues,
+  enumValues,
+  MAX_COMPLETION_VALUES,
+  promptArgumentSchema,
+} from "../../src/completions";
+
+describe("enumValues", () => {
+  it("should read enum values", () => {
+    expect(enumValues({ type: "string", enum: ["low", "high"] })).toEqual([
+      "low",
+      "high",
+    ]);
+  });
+
+  it("should read const values from anyOf and oneOf", () => {
+    expect(
+      enumValues({
+        anyOf: [{ const: "a" }, { const: "b" }],
+        oneOf: [{ enum: ["c", "a"] }],
+      }),
+    ).toEqual(["a", "b", "c"]);
+  });
+
+  it("should stringify numbers and booleans and skip other values", () => {
+    expect(enumValues({ enum: [1, true, null, { x: 1 }] })).toEqual([
+      "1",
+      "true",
+    ]);
+  });
+
+  it("should return nothing for schemas without enumerations", () => {
+    expect(enumValues({ type: "string" })).toEqual([]);
+    expect(enumValues(undefined)).toEqual([]);
+  });
+});
+
+describe("promptArgumentSchema", () => {
+  it("should prefer an attached schema", () => {
+    const schema = { enum: ["a"] };
+    expect(promptArgumentSchema({ name: "x", schema })).toBe(schema);
+  });
+
+  it("should fall back to the argument itself", () => {
+    const argument = { name: "x", enum: ["a"] };
+    expect(promptArgumentSchema(argument)).toBe(argument);
+  });
+
+  it("should ignore missing arguments", () => {
+    expect(promptArgumentSchema(undefined)).toBeUndefined();
+  });
+});
+
+describe("completeFromValues", () => {
+  it("should filter by case-insensitive prefix", () => {
+    expect(completeFromValues(["Python", "perl", "go"], "p")).toEqual({
+      values: ["Python", "perl"],
+      total: 2,
+      hasMore: false,
+    });
+  });
+
+  it("should return every value for an empty prefix", () => {
+    expect(completeFromValues(["a", "b"], "").values).toEqual(["a", "b"]);
+  });
+
+  it("should cap the number of values", () => {
+    const values = Array.from({ length: 150 }, (_, i) => `v${i}`);
+    const completion = completeFromValues(values, "v");
+
+    expect(completion.values).toHaveLength(MAX_COMPLETION_VALUES);
+    expect(completion.total).toBe(150);
+    expect(completion.hasMore).toBe(true);
+  });
+});
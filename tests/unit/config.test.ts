@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { loadConfig } from "../../src/config";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ConfigError, loadConfig } from "../../src/config";
 
 describe("loadConfig", () => {
   let originalEnv: NodeJS.ProcessEnv;
@@ -52,6 +55,14 @@ describe("loadConfig", () => {
     expect(config.mcpdApiKey).toBe("production-key");
   });
 
+  it("should treat an empty MCPD_ADDR as unset", () => {
+    process.env.MCPD_ADDR = "";
+
+    const config = loadConfig();
+
+    expect(config.mcpdAddr).toBe("http://localhost:8090");
+  });
+
   it("should handle empty string API key", () => {
     process.env.MCPD_API_KEY = "";
 
@@ -60,3 +71,380 @@ describe("loadConfig", () => {
     expect(config.mcpdApiKey).toBe("");
   });
 });
+
+describe("loadConfig CLI flags", () => {
+  it("should default to stdio transport", () => {
+    const config = loadConfig([]);
+
+    expect(config.transport).toBe("stdio");
+    expect(config.httpHost).toBe("127.0.0.1");
+    expect(config.httpPort).toBe(8091);
+  });
+
+  it("should parse HTTP transport flags", () => {
+    const config = loadConfig([
+      "--transport",
+      "http",
+      "--host",
+      "0.0.0.0",
+      "--port",
+      "3000",
+    ]);
+
+    expect(config.transport).toBe("http");
+    expect(config.httpHost).toBe("0.0.0.0");
+    expect(config.httpPort).toBe(3000);
+  });
+
+  it("should parse HTTP allowed hosts and session idle time", () => {
+    const config = loadConfig(["--allowed-hosts", "proxy.internal, 10.0.0.5"], {
+      MCPD_PROXY_SESSION_IDLE_MS: "0",
+    });
+
+    expect(config.httpAllowedHosts).toEqual(["proxy.internal", "10.0.0.5"]);
+    expect(config.httpSessionIdleMs).toBe(0);
+    expect(loadConfig([]).httpSessionIdleMs).toBe(1_800_000);
+  });
+
+  it("should reject unknown transports", () => {
+    expect(() => loadConfig(["--transport", "ws"])).toThrow(
+      '--transport: expected one of stdio, http, got "ws"',
+    );
+  });
+
+  it("should reject invalid ports", () => {
+    expect(() => loadConfig(["--port", "99999"])).toThrow(
+      "--port: expected an integer between 0 and 65535, got 99999",
+    );
+  });
+
+  it("should parse comma-separated server filters", () => {
+    const config = loadConfig(["--include-servers", "github, jira,"], {
+      MCPD_PROXY_EXCLUDE_SERVERS: "post*",
+    });
+
+    expect(config.includeServers).toEqual(["github", "jira"]);
+    expect(config.excludeServers).toEqual(["post*"]);
+  });
+
+  it("should parse tool filters and profile", () => {
+    const config = loadConfig(
+      ["--exclude-tools", "github__delete_*", "--tool-profile", "read-only"],
+      {},
+    );
+
+    expect(config.excludeTools).toEqual(["github__delete_*"]);
+    expect(config.toolProfile).toBe("read-only");
+  });
+
+  it("should default to the all tool profile", () => {
+    expect(loadConfig([], {}).toolProfile).toBe("all");
+  });
+
+  it("should parse separator and server aliases", () => {
+    const config = loadConfig(["--separator", "."], {
+      MCPD_PROXY_SERVER_ALIASES: "github=gh_, jira=jr.",
+    });
+
+    expect(config.separator).toBe(".");
+    expect(config.serverAliases).toEqual({ github: "gh_", jira: "jr." });
+  });
+
+  it("should reject malformed server aliases", () => {
+    expect(() => loadConfig(["--server-aliases", "github"], {})).toThrow(
+      "--server-aliases: expected a map of names to non-empty strings",
+    );
+  });
+
+  it("should parse tool name sanitization settings", () => {
+    const config = loadConfig(["--sanitize-tool-names", "false"], {
+      MCPD_PROXY_MAX_TOOL_NAME_LENGTH: "48",
+    });
+
+    expect(config.sanitizeToolNames).toBe(false);
+    expect(config.maxToolNameLength).toBe(48);
+  });
+
+  it("should reject invalid tool name sanitization settings", () => {
+    expect(() =>
+      loadConfig(
+        ["--sanitize-tool-names", "maybe", "--max-tool-name-length", "4"],
+        {},
+      ),
+    ).toThrow(ConfigError);
+  });
+
+  it("should parse the watch interval", () => {
+    expect(loadConfig([], {}).watchIntervalMs).toBe(30000);
+    expect(loadConfig(["--watch-interval-ms", "0"], {}).watchIntervalMs).toBe(
+      0,
+    );
+  });
+
+  it("should parse the subscription interval", () => {
+    expect(loadConfig([], {}).subscriptionIntervalMs).toBe(5000);
+    expect(
+      loadConfig([], { MCPD_PROXY_SUBSCRIPTION_INTERVAL_MS: "1000" })
+        .subscriptionIntervalMs,
+    ).toBe(1000);
+    expect(() => loadConfig(["--subscription-interval-ms", "-1"], {})).toThrow(
+      ConfigError,
+    );
+  });
+
+  it("should parse the page size", () => {
+    expect(loadConfig([], {}).pageSize).toBe(100);
+    expect(loadConfig(["--page-size", "25"], {}).pageSize).toBe(25);
+    expect(() => loadConfig([], { MCPD_PROXY_PAGE_SIZE: "0" })).toThrow(
+      ConfigError,
+    );
+  });
+
+  it("should parse per-kind catalog cache TTLs", () => {
+    expect(loadConfig([], {}).catalogTtlMs).toEqual({
+      tools: 10000,
+      prompts: 10000,
+      resources: 10000,
+      resourceTemplates: 10000,
+    });
+    expect(
+      loadConfig(["--catalog-ttl-ms", "tools=5000,resources=0"], {})
+        .catalogTtlMs,
+    ).toEqual({ tools: 5000, resources: 0 });
+  });
+
+  it("should reject unknown catalog kinds and invalid TTLs", () => {
+    expect(() =>
+      loadConfig([], { MCPD_PROXY_CATALOG_TTL_MS: "widgets=5" }),
+    ).toThrow(ConfigError);
+    expect(() =>
+      loadConfig([], { MCPD_PROXY_CATALOG_TTL_MS: "tools=soon" }),
+    ).toThrow(ConfigError);
+  });
+
+  it("should parse global and per-server list deadlines", () => {
+    const config = loadConfig(
+      ["--server-timeout-ms", "2000", "--server-timeouts", "github=10000"],
+      {},
+    );
+
+    expect(config.serverTimeoutMs).toBe(2000);
+    expect(config.serverTimeouts).toEqual({ github: 10000 });
+    expect(loadConfig([], {}).serverTimeoutMs).toBe(5000);
+    expect(() =>
+      loadConfig([], { MCPD_PROXY_SERVER_TIMEOUTS: "github=-1" }),
+    ).toThrow(ConfigError);
+  });
+
+  it("should parse global and per-tool call timeouts", () => {
+    const config = loadConfig(["--call-timeout-ms", "20000"], {
+      MCPD_PROXY_CALL_TIMEOUTS: "github=60000,github__search=5000",
+    });
+
+    expect(config.callTimeoutMs).toBe(20000);
+    expect(config.callTimeouts).toEqual({
+      github: 60000,
+      github__search: 5000,
+    });
+    expect(loadConfig([], {}).callTimeoutMs).toBeUndefined();
+    expect(() => loadConfig(["--call-timeouts", "github=soon"], {})).toThrow(
+      ConfigError,
+    );
+  });
+
+  it("should parse the progress interval", () => {
+    expect(loadConfig([], {}).progressIntervalMs).toBe(10000);
+    expect(
+      loadConfig(["--progress-interval-ms", "0"], {}).progressIntervalMs,
+    ).toBe(0);
+    expect(() =>
+      loadConfig([], { MCPD_PROXY_PROGRESS_INTERVAL_MS: "-5" }),
+    ).toThrow(ConfigError);
+  });
+
+  it("should parse the retry policy", () => {
+    expect(loadConfig([], {})).toMatchObject({
+      retries: 2,
+      retryBaseDelayMs: 200,
+      retryMaxDelayMs: 2000,
+    });
+    expect(
+      loadConfig(["--retries", "0"], { MCPD_PROXY_RETRY_MAX_DELAY_MS: "500" }),
+    ).toMatchObject({ retries: 0, retryMaxDelayMs: 500 });
+    expect(() => loadConfig(["--retries", "-1"], {})).toThrow(ConfigError);
+  });
+
+  it("should parse the circuit breaker settings", () => {
+    expect(loadConfig([], {})).toMatchObject({
+      circuitBreakerThreshold: 5,
+      circuitBreakerCooldownMs: 30000,
+    });
+    expect(
+      loadConfig(["--circuit-breaker-threshold", "0"], {
+        MCPD_PROXY_CIRCUIT_BREAKER_COOLDOWN_MS: "1000",
+      }),
+    ).toMatchObject({
+      circuitBreakerThreshold: 0,
+      circuitBreakerCooldownMs: 1000,
+    });
+    expect(() =>
+      loadConfig(["--circuit-breaker-threshold", "1.5"], {}),
+    ).toThrow(ConfigError);
+  });
+
+  it("should parse log level and format", () => {
+    const config = loadConfig(["--log-level", "debug"], {
+      MCPD_PROXY_LOG_FORMAT: "json",
+    });
+
+    expect(config.logLevel).toBe("debug");
+    expect(config.logFormat).toBe("json");
+    expect(loadConfig([], {})).toMatchObject({
+      logLevel: "info",
+      logFormat: "text",
+    });
+    expect(() => loadConfig(["--log-level", "verbose"], {})).toThrow(
+      ConfigError,
+    );
+    expect(() => loadConfig([], { MCPD_PROXY_LOG_FORMAT: "xml" })).toThrow(
+      ConfigError,
+    );
+  });
+
+  it("should parse trace exporters", () => {
+    const config = loadConfig(
+      ["--otlp-endpoint", "http://localhost:4318/v1/traces"],
+      { MCPD_PROXY_TRACE_FILE: "traces.jsonl" },
+    );
+
+    expect(config.otlpEndpoint).toBe("http://localhost:4318/v1/traces");
+    expect(config.traceFile).toBe("traces.jsonl");
+    expect(() => loadConfig(["--otlp-endpoint", "localhost:4318"], {})).toThrow(
+      ConfigError,
+    );
+  });
+
+  it("should parse the metrics listener", () => {
+    const config = loadConfig(["--metrics-port", "9464"], {
+      MCPD_PROXY_METRICS_HOST: "0.0.0.0",
+    });
+
+    expect(config.metricsHost).toBe("0.0.0.0");
+    expect(config.metricsPort).toBe(9464);
+    expect(loadConfig([], {})).toMatchObject({ metricsHost: "127.0.0.1" });
+    expect(loadConfig([], {}).metricsPort).toBeUndefined();
+    expect(() => loadConfig(["--metrics-port", "-1"], {})).toThrow(ConfigError);
+  });
+
+  it("should reject unknown flags", () => {
+    expect(() => loadConfig(["--unknown"])).toThrow(ConfigError);
+  });
+});
+
+describe("loadConfig layering", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "mcpd-proxy-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeConfig(name: string, contents: string): string {
+    const path = join(dir, name);
+    writeFileSync(path, contents);
+    return path;
+  }
+
+  it("should load a JSON config file via --config", () => {
+    const path = writeConfig(
+      "proxy.json",
+      JSON.stringify({ mcpdAddr: "http://file:9000", httpPort: 4000 }),
+    );
+
+    const config = loadConfig(["--config", path], {});
+
+    expect(config.mcpdAddr).toBe("http://file:9000");
+    expect(config.httpPort).toBe(4000);
+    expect(config.transport).toBe("stdio");
+  });
+
+  it("should load a TOML config file via MCPD_PROXY_CONFIG", () => {
+    const path = writeConfig(
+      "proxy.toml",
+      'transport = "http"\nhttpHost = "0.0.0.0"\n',
+    );
+
+    const config = loadConfig([], { MCPD_PROXY_CONFIG: path });
+
+    expect(config.transport).toBe("http");
+    expect(config.httpHost).toBe("0.0.0.0");
+  });
+
+  it("should apply defaults < file < env < CLI flags", () => {
+    const path = writeConfig(
+      "proxy.json",
+      JSON.stringify({
+        mcpdAddr: "http://file:1",
+        httpHost: "file-host",
+        httpPort: 1111,
+      }),
+    );
+
+    const config = loadConfig(["--config", path, "--port", "3333"], {
+      MCPD_ADDR: "http://env:2",
+      MCPD_PROXY_PORT: "2222",
+    });
+
+    expect(config.mcpdAddr).toBe("http://env:2");
+    expect(config.httpHost).toBe("file-host");
+    expect(config.httpPort).toBe(3333);
+  });
+
+  it("should report every invalid field across layers", () => {
+    const path = writeConfig(
+      "proxy.json",
+      JSON.stringify({ transport: "ws", httpPort: "x", extra: true }),
+    );
+
+    let error: ConfigError | undefined;
+    try {
+      loadConfig(["--config", path, "--host", ""], {
+        MCPD_ADDR: "not a url",
+      });
+    } catch (e) {
+      error = e as ConfigError;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error?.issues).toEqual([
+      `${path}: transport: expected one of stdio, http, got "ws"`,
+      `${path}: httpPort: expected an integer between 0 and 65535, got "x"`,
+      `${path}: extra: unknown field`,
+      'MCPD_ADDR: expected an http(s) URL, got "not a url"',
+      '--host: expected a non-empty string, got ""',
+    ]);
+  });
+
+  it("should reject unsupported config file types", () => {
+    const path = writeConfig("proxy.yaml", "transport: http");
+
+    expect(() => loadConfig(["--config", path], {})).toThrow(
+      "unsupported config file type",
+    );
+  });
+
+  it("should report unreadable config files", () => {
+    expect(() =>
+      loadConfig(["--config", join(dir, "missing.json")], {}),
+    ).toThrow(ConfigError);
+  });
+
+  it("should report malformed config files", () => {
+    const path = writeConfig("proxy.toml", "transport = ");
+
+    expect(() => loadConfig(["--config", path], {})).toThrow(ConfigError);
+  });
+});
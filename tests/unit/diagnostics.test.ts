@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Diagnostics, DIAGNOSTICS_RESOURCE_URI } from "../../src/diagnostics";
+import type { SkippedServer } from "../../src/fanout";
+import { logger, type LogRecord } from "../../src/logger";
+
+function skipped(server: string, errorType = "ConnectionError"): SkippedServer {
+  return {
+    server,
+    reason: "error",
+    errorType,
+    message: "Connection refused",
+    stale: false,
+  };
+}
+
+describe("Diagnostics", () => {
+  let time: number;
+  const now = () => new Date(time);
+  let records: LogRecord[];
+  let removeSink: () => void;
+
+  beforeEach(() => {
+    time = Date.UTC(2025, 0, 1);
+    records = [];
+    removeSink = logger.addSink((record) => records.push(record));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    removeSink();
+    vi.restoreAllMocks();
+  });
+
+  it("should record failures per catalog", () => {
+    const diagnostics = new Diagnostics({ now });
+
+    diagnostics.record("tools", [skipped("github")]);
+    diagnostics.record("prompts", [skipped("jira", "AuthenticationError")]);
+
+    expect(diagnostics.failures("tools")).toEqual([
+      {
+        ...skipped("github"),
+        catalog: "tools",
+        since: "2025-01-01T00:00:00.000Z",
+      },
+    ]);
+    expect(
+      diagnostics
+        .failures()
+        .map(({ server, errorType }) => [server, errorType]),
+    ).toEqual([
+      ["github", "ConnectionError"],
+      ["jira", "AuthenticationError"],
+    ]);
+  });
+
+  it("should report a failure once until its error class changes", () => {
+    const diagnostics = new Diagnostics({ now });
+
+    diagnostics.record("tools", [skipped("github")]);
+    time += 1000;
+    diagnostics.record("tools", [skipped("github")]);
+    diagnostics.record("tools", [skipped("github", "TimeoutError")]);
+
+    expect(records).toHaveLength(2);
+    expect(records[1]).toMatchObject({
+      level: "warning",
+      fields: {
+        failure: expect.objectContaining({ errorType: "TimeoutError" }),
+      },
+    });
+    expect(console.error).toHaveBeenCalledTimes(2);
+    expect(console.error).toHaveBeenCalledWith(
+      "[mcpd-proxy] Skipped server 'github' while listing tools (ConnectionError): Connection refused",
+    );
+  });
+
+  it("should keep when a repeated failure started", () => {
+    const diagnostics = new Diagnostics({ now });
+
+    diagnostics.record("tools", [skipped("github")]);
+    time += 1000;
+    diagnostics.record("tools", [skipped("github")]);
+
+    expect(diagnostics.failures("tools")[0]?.since).toBe(
+      "2025-01-01T00:00:00.000Z",
+    );
+  });
+
+  it("should report recoveries", () => {
+    const diagnostics = new Diagnostics({ now });
+
+    diagnostics.record("tools", [skipped("github")]);
+    diagnostics.record("tools", []);
+
+    expect(records.at(-1)).toMatchObject({
+      level: "info",
+      message: "Server 'github' recovered while listing tools",
+      fields: { catalog: "tools", server: "github" },
+    });
+    expect(diagnostics.failures()).toEqual([]);
+  });
+
+  it("should render failures as a JSON resource", () => {
+    const diagnostics = new Diagnostics({ now });
+    diagnostics.record("resources", [skipped("github")]);
+
+    const [contents] = diagnostics.toResourceContents();
+
+    expect(contents?.uri).toBe(DIAGNOSTICS_RESOURCE_URI);
+    expect(contents?.mimeType).toBe("application/json");
+    expect(JSON.parse(contents?.text ?? "")).toEqual({
+      generatedAt: "2025-01-01T00:00:00.000Z",
+      failures: [
+        {
+          ...skipped("github"),
+          catalog: "resources",
+          since: "2025-01-01T00:00:00.000Z",
+        },
+      ],
+      collisions: [],
+      retries: [],
+      circuits: [],
+    });
+  });
+
+  it("should list name collisions per catalog", () => {
+    const diagnostics = new Diagnostics({ now });
+    const collision = {
+      name: "a__b__c",
+      kept: { server: "a", name: "b__c" },
+      dropped: { server: "a__b", name: "c" },
+    };
+
+    diagnostics.recordCollisions("tools", [collision]);
+    diagnostics.recordCollisions("prompts", []);
+
+    expect(diagnostics.collisions()).toEqual([
+      { ...collision, catalog: "tools" },
+    ]);
+    diagnostics.recordCollisions("tools", []);
+    expect(diagnostics.collisions()).toEqual([]);
+  });
+
+  it("should count retries per operation and server", () => {
+    const diagnostics = new Diagnostics({ now });
+
+    diagnostics.recordRetry("getTools", "github", new Error("first"));
+    diagnostics.recordRetry("getTools", "github", new Error("second"));
+    diagnostics.recordRetry("listServers", undefined, new Error("down"));
+
+    expect(diagnostics.retries()).toEqual([
+      {
+        operation: "getTools",
+        server: "github",
+        retries: 2,
+        errorType: "Error",
+        message: "second",
+        lastRetry: "2025-01-01T00:00:00.000Z",
+      },
+      {
+        operation: "listServers",
+        retries: 1,
+        errorType: "Error",
+        message: "down",
+        lastRetry: "2025-01-01T00:00:00.000Z",
+      },
+    ]);
+  });
+});
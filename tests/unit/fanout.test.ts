@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { DeadlineExceededError, fanOut } from "../../src/fanout";
+
+describe("fanOut", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should return results in server order", async () => {
+    const { results, skipped } = await fanOut(["a", "b"], async (server) =>
+      server.toUpperCase(),
+    );
+
+    expect(results).toEqual([
+      { serverName: "a", value: "A" },
+      { serverName: "b", value: "B" },
+    ]);
+    expect(skipped).toEqual([]);
+  });
+
+  it("should drop servers that miss their deadline", async () => {
+    vi.useFakeTimers();
+    const pending = fanOut(
+      ["fast", "slow"],
+      (server) =>
+        server === "fast" ? Promise.resolve("ok") : new Promise(() => {}),
+      { timeoutMs: () => 1000 },
+    );
+
+    await vi.advanceTimersByTimeAsync(1000);
+    const { results, skipped } = await pending;
+
+    expect(results).toEqual([{ serverName: "fast", value: "ok" }]);
+    expect(skipped).toEqual([
+      {
+        server: "slow",
+        reason: "timeout",
+        errorType: "DeadlineExceededError",
+        message: "Server 'slow' did not answer within 1000ms",
+        stale: false,
+      },
+    ]);
+  });
+
+  it("should apply per-server deadlines", async () => {
+    vi.useFakeTimers();
+    const fetch = (server: string) =>
+      new Promise<string>((resolve) => setTimeout(() => resolve(server), 500));
+    const pending = fanOut(["patient", "hasty"], fetch, {
+      timeoutMs: (server) => (server === "patient" ? 0 : 100),
+    });
+
+    await vi.advanceTimersByTimeAsync(500);
+    const { results, skipped } = await pending;
+
+    expect(results).toEqual([{ serverName: "patient", value: "patient" }]);
+    expect(skipped.map(({ server }) => server)).toEqual(["hasty"]);
+  });
+
+  it("should serve failed servers from their last good snapshot", async () => {
+    const snapshots = new Map<string, string>();
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce("v1")
+      .mockRejectedValueOnce(new Error("Connection refused"));
+
+    await fanOut(["a"], fetch, { snapshots });
+    const { results, skipped } = await fanOut(["a"], fetch, { snapshots });
+
+    expect(results).toEqual([{ serverName: "a", value: "v1" }]);
+    expect(skipped).toEqual([
+      {
+        server: "a",
+        reason: "error",
+        errorType: "Error",
+        message: "Connection refused",
+        stale: true,
+      },
+    ]);
+  });
+
+  it("should store late results as the next snapshot", async () => {
+    vi.useFakeTimers();
+    const snapshots = new Map<string, string>();
+    const pending = fanOut(
+      ["slow"],
+      () =>
+        new Promise<string>((resolve) =>
+          setTimeout(() => resolve("late"), 2000),
+        ),
+      { timeoutMs: () => 1000, snapshots },
+    );
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect((await pending).results).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(snapshots.get("slow")).toBe("late");
+  });
+});
+
+describe("DeadlineExceededError", () => {
+  it("should record the missed deadline", () => {
+    const error = new DeadlineExceededError("slow", 250);
+
+    expect(error.name).toBe("DeadlineExceededError");
+    expect(error.timeoutMs).toBe(250);
+    expect(error.message).toBe("Server 'slow' did not answer within 250ms");
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  createNameFilter,
+  globToRegExp,
+  isDestructiveTool,
+} from "../../src/filters";
+
+describe("globToRegExp", () => {
+  it("should match literal names exactly", () => {
+    expect(globToRegExp("github").test("github")).toBe(true);
+    expect(globToRegExp("github").test("github2")).toBe(false);
+  });
+
+  it("should treat * as any run of characters", () => {
+    const regExp = globToRegExp("git*");
+    expect(regExp.test("git")).toBe(true);
+    expect(regExp.test("github")).toBe(true);
+    expect(regExp.test("gitlab")).toBe(true);
+    expect(regExp.test("agit")).toBe(false);
+  });
+
+  it("should treat ? as a single character", () => {
+    const regExp = globToRegExp("db?");
+    expect(regExp.test("db1")).toBe(true);
+    expect(regExp.test("db")).toBe(false);
+    expect(regExp.test("db12")).toBe(false);
+  });
+
+  it("should escape regular expression characters", () => {
+    expect(globToRegExp("a.b").test("a.b")).toBe(true);
+    expect(globToRegExp("a.b").test("axb")).toBe(false);
+    expect(globToRegExp("(x)+").test("(x)+")).toBe(true);
+  });
+});
+
+describe("createNameFilter", () => {
+  it("should allow everything when no patterns are given", () => {
+    const filter = createNameFilter();
+    expect(filter("github")).toBe(true);
+    expect(filter("postgres")).toBe(true);
+  });
+
+  it("should only allow included names", () => {
+    const filter = createNameFilter(["github", "jira"]);
+    expect(filter("github")).toBe(true);
+    expect(filter("jira")).toBe(true);
+    expect(filter("postgres")).toBe(false);
+  });
+
+  it("should hide excluded names", () => {
+    const filter = createNameFilter(undefined, ["post*"]);
+    expect(filter("github")).toBe(true);
+    expect(filter("postgres")).toBe(false);
+  });
+
+  it("should let exclusion win over inclusion", () => {
+    const filter = createNameFilter(["*"], ["github"]);
+    expect(filter("github")).toBe(false);
+    expect(filter("jira")).toBe(true);
+  });
+});
+
+describe("isDestructiveTool", () => {
+  it("should flag tools annotated as destructive", () => {
+    expect(isDestructiveTool({ destructiveHint: true })).toBe(true);
+    expect(
+      isDestructiveTool({ readOnlyHint: false, destructiveHint: true }),
+    ).toBe(true);
+  });
+
+  it("should not flag read-only tools", () => {
+    expect(
+      isDestructiveTool({ readOnlyHint: true, destructiveHint: true }),
+    ).toBe(false);
+  });
+
+  it("should flag tools without a destructiveHint, as the spec defaults it to true", () => {
+    expect(isDestructiveTool(undefined)).toBe(true);
+    expect(isDestructiveTool({})).toBe(true);
+    expect(isDestructiveTool({ readOnlyHint: false })).toBe(true);
+  });
+
+  it("should not flag tools annotated as non-destructive", () => {
+    expect(isDestructiveTool({ destructiveHint: false })).toBe(false);
+    expect(
+      isDestructiveTool({ readOnlyHint: false, destructiveHint: false }),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,281 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { request } from "node:http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  MCP_PATH,
+  startHttpServer,
+  type RunningHttpServer,
+} from "../../src/http";
+
+const initializeRequest = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-06-18",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+const headers = {
+  "Content-Type": "application/json",
+  Accept: "application/json, text/event-stream",
+};
+
+/**
+ * POST an initialize request with raw headers, which fetch would not let us
+ * set (e.g., Host).
+ */
+function postInitialize(
+  port: number,
+  extraHeaders: Record<string, string>,
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      {
+        host: "127.0.0.1",
+        port,
+        path: MCP_PATH,
+        method: "POST",
+        headers: { ...headers, ...extraHeaders },
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      },
+    );
+    req.on("error", reject);
+    req.end(JSON.stringify(initializeRequest));
+  });
+}
+
+describe("startHttpServer", () => {
+  let running: RunningHttpServer;
+  let createdServers: number;
+  let url: string;
+
+  beforeEach(async () => {
+    createdServers = 0;
+    running = await startHttpServer({ host: "127.0.0.1", port: 0 }, () => {
+      createdServers++;
+      return new Server(
+        { name: "test", version: "1.0.0" },
+        { capabilities: { tools: {} } },
+      );
+    });
+    url = `http://127.0.0.1:${running.address.port}${MCP_PATH}`;
+  });
+
+  afterEach(async () => {
+    await running.close();
+  });
+
+  it("should create a session on initialize", async () => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(initializeRequest),
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("mcp-session-id")).toBeTruthy();
+    expect(await response.text()).toContain('"serverInfo"');
+  });
+
+  it("should create a separate server per session", async () => {
+    const first = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(initializeRequest),
+    });
+    const second = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(initializeRequest),
+    });
+    await Promise.all([first.text(), second.text()]);
+
+    expect(createdServers).toBe(2);
+    expect(first.headers.get("mcp-session-id")).not.toBe(
+      second.headers.get("mcp-session-id"),
+    );
+  });
+
+  it("should route requests by session ID", async () => {
+    const init = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(initializeRequest),
+    });
+    await init.text();
+    const sessionId = init.headers.get("mcp-session-id")!;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        ...headers,
+        "mcp-session-id": sessionId,
+        "mcp-protocol-version": "2025-06-18",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "ping" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('"id":2');
+    expect(createdServers).toBe(1);
+  });
+
+  it("should reject non-initialize requests without a session", async () => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(createdServers).toBe(0);
+  });
+
+  it("should return 404 for unknown sessions", async () => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { ...headers, "mcp-session-id": "missing" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 400 for malformed JSON", async () => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: "{not json",
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should return 404 for other paths", async () => {
+    const response = await fetch(
+      `http://127.0.0.1:${running.address.port}/other`,
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should reject requests for other hosts", async () => {
+    const { port } = running.address;
+
+    expect(await postInitialize(port, { Host: "evil.example" })).toBe(403);
+    expect(await postInitialize(port, { Host: `localhost:${port}` })).toBe(200);
+    expect(createdServers).toBe(1);
+  });
+
+  it("should reject browser requests from other origins", async () => {
+    const { port } = running.address;
+
+    expect(await postInitialize(port, { Origin: "http://evil.example" })).toBe(
+      403,
+    );
+    expect(await postInitialize(port, { Origin: "null" })).toBe(403);
+    expect(
+      await postInitialize(port, { Origin: "http://localhost:6274" }),
+    ).toBe(200);
+  });
+
+  it("should accept configured allowed hosts", async () => {
+    const wildcard = await startHttpServer(
+      { host: "0.0.0.0", port: 0, allowedHosts: ["Proxy.Internal"] },
+      () => new Server({ name: "test", version: "1.0.0" }, {}),
+    );
+    const { port } = wildcard.address;
+
+    try {
+      expect(
+        await postInitialize(port, { Host: `proxy.internal:${port}` }),
+      ).toBe(200);
+      expect(await postInitialize(port, { Host: "0.0.0.0" })).toBe(403);
+    } finally {
+      await wildcard.close();
+    }
+  });
+
+  it("should close sessions that stay idle", async () => {
+    let closed = false;
+    const idle = await startHttpServer(
+      { host: "127.0.0.1", port: 0, sessionIdleMs: 20 },
+      () => {
+        const server = new Server({ name: "test", version: "1.0.0" }, {});
+        server.onclose = () => {
+          closed = true;
+        };
+        return server;
+      },
+    );
+    const idleUrl = `http://127.0.0.1:${idle.address.port}${MCP_PATH}`;
+
+    try {
+      const init = await fetch(idleUrl, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(initializeRequest),
+      });
+      await init.text();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const response = await fetch(idleUrl, {
+        method: "POST",
+        headers: {
+          ...headers,
+          "mcp-session-id": init.headers.get("mcp-session-id")!,
+          "mcp-protocol-version": "2025-06-18",
+        },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "ping" }),
+      });
+
+      expect(response.status).toBe(404);
+      expect(closed).toBe(true);
+    } finally {
+      await idle.close();
+    }
+  });
+
+  it("should keep sessions with open requests alive", async () => {
+    const idle = await startHttpServer(
+      { host: "127.0.0.1", port: 0, sessionIdleMs: 20 },
+      () => new Server({ name: "test", version: "1.0.0" }, {}),
+    );
+    const idleUrl = `http://127.0.0.1:${idle.address.port}${MCP_PATH}`;
+
+    try {
+      const init = await fetch(idleUrl, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(initializeRequest),
+      });
+      await init.text();
+      const sessionHeaders = {
+        "mcp-session-id": init.headers.get("mcp-session-id")!,
+        "mcp-protocol-version": "2025-06-18",
+      };
+      const stream = await fetch(idleUrl, {
+        headers: { Accept: "text/event-stream", ...sessionHeaders },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const response = await fetch(idleUrl, {
+        method: "POST",
+        headers: { ...headers, ...sessionHeaders },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "ping" }),
+      });
+
+      expect(stream.status).toBe(200);
+      expect(response.status).toBe(200);
+      await stream.body?.cancel();
+    } finally {
+      await idle.close();
+    }
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatLogRecord,
+  isLevelEnabled,
+  Logger,
+  serializeFields,
+  type LogRecord,
+} from "../../src/logger";
+
+const time = new Date(Date.UTC(2025, 0, 1));
+
+function createLogger(options: ConstructorParameters<typeof Logger>[0] = {}) {
+  const lines: string[] = [];
+  const logger = new Logger({
+    write: (line) => lines.push(line),
+    now: () => time,
+    ...options,
+  });
+  return { logger, lines };
+}
+
+describe("isLevelEnabled", () => {
+  it("should pass levels at or above the threshold", () => {
+    expect(isLevelEnabled("error", "warning")).toBe(true);
+    expect(isLevelEnabled("warning", "warning")).toBe(true);
+    expect(isLevelEnabled("info", "warning")).toBe(false);
+    expect(isLevelEnabled("emergency", "debug")).toBe(true);
+  });
+});
+
+describe("serializeFields", () => {
+  it("should render errors as their class and message", () => {
+    const error = new TypeError("bad input");
+
+    expect(serializeFields({ server: "github", error })).toEqual({
+      server: "github",
+      error: { name: "TypeError", message: "bad input" },
+    });
+  });
+});
+
+describe("formatLogRecord", () => {
+  const record: LogRecord = {
+    time: time.toISOString(),
+    level: "error",
+    message: "Request tools/call failed",
+    fields: { durationMs: 12, error: new Error("Connection refused") },
+  };
+
+  it("should print the message and error as text", () => {
+    expect(formatLogRecord(record, "text")).toBe(
+      "[mcpd-proxy] Request tools/call failed: Error: Connection refused",
+    );
+    expect(formatLogRecord({ ...record, fields: {} }, "text")).toBe(
+      "[mcpd-proxy] Request tools/call failed",
+    );
+  });
+
+  it("should print every field as a JSON line", () => {
+    expect(JSON.parse(formatLogRecord(record, "json"))).toEqual({
+      time: "2025-01-01T00:00:00.000Z",
+      level: "error",
+      logger: "mcpd-proxy",
+      message: "Request tools/call failed",
+      durationMs: 12,
+      error: { name: "Error", message: "Connection refused" },
+    });
+  });
+});
+
+describe("Logger", () => {
+  it("should write records at or above its level", () => {
+    const { logger, lines } = createLogger({ level: "warning" });
+
+    logger.info("Listening");
+    logger.warning("Name collision");
+    logger.error("Failed to start");
+
+    expect(lines).toEqual([
+      "[mcpd-proxy] Name collision",
+      "[mcpd-proxy] Failed to start",
+    ]);
+  });
+
+  it("should change level and format when configured", () => {
+    const { logger, lines } = createLogger();
+
+    logger.debug("hidden");
+    logger.configure({ level: "debug", format: "json" });
+    logger.debug("Request ping", { method: "ping" });
+
+    expect(logger.level).toBe("debug");
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0] ?? "")).toMatchObject({
+      level: "debug",
+      message: "Request ping",
+      method: "ping",
+    });
+  });
+
+  it("should pass every record to sinks until removed", () => {
+    const { logger, lines } = createLogger({ level: "error" });
+    const records: LogRecord[] = [];
+    const removeSink = logger.addSink((record) => records.push(record));
+
+    logger.debug("Request ping", { session: "a" });
+    removeSink();
+    logger.debug("Request ping", { session: "b" });
+
+    expect(lines).toEqual([]);
+    expect(records).toEqual([
+      {
+        time: "2025-01-01T00:00:00.000Z",
+        level: "debug",
+        message: "Request ping",
+        fields: { session: "a" },
+      },
+    ]);
+  });
+
+  it("should add context fields to records logged inside it", async () => {
+    const { logger } = createLogger();
+    const records: LogRecord[] = [];
+    logger.addSink((record) => records.push(record));
+
+    await logger.withContext({ session: "a" }, async () => {
+      await Promise.resolve();
+      logger.info("Request ping", { method: "ping" });
+      logger.withContext({}, () => logger.info("Catalog loaded"));
+    });
+    logger.info("Listening");
+
+    expect(records.map(({ fields }) => fields)).toEqual([
+      { session: "a", method: "ping" },
+      {},
+      {},
+    ]);
+  });
+
+  it("should keep logging when a sink throws", () => {
+    const { logger } = createLogger();
+    const records: LogRecord[] = [];
+    logger.addSink(() => {
+      throw new Error("closed");
+    });
+    logger.addSink((record) => records.push(record));
+
+    logger.info("Listening");
+
+    expect(records).toHaveLength(1);
+  });
+});
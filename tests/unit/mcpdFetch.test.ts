@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from "vitest";
+import { addMcpdRequestHook, isMcpdUrl } from "../../src/mcpdFetch";
+
+function createTarget() {
+  const fetch = vi.fn(
+    async (_input: string | URL | Request, _init?: RequestInit) =>
+      new Response("{}"),
+  );
+  return { fetch, target: { fetch } };
+}
+
+describe("isMcpdUrl", () => {
+  it("should match the mcpd origin and path only", () => {
+    const base = "http://localhost:8090";
+
+    expect(isMcpdUrl("http://localhost:8090/api/v1/servers", base)).toBe(true);
+    expect(isMcpdUrl("http://localhost:8090", base)).toBe(true);
+    expect(isMcpdUrl("http://localhost:80901/api/v1/servers", base)).toBe(
+      false,
+    );
+    expect(isMcpdUrl("https://localhost:8090/api/v1/servers", base)).toBe(
+      false,
+    );
+    expect(isMcpdUrl("http://collector:4318/v1/traces", base)).toBe(false);
+    expect(isMcpdUrl("not a url", base)).toBe(false);
+  });
+
+  it("should respect a path in the mcpd address", () => {
+    const base = "http://gateway/mcpd/";
+
+    expect(isMcpdUrl("http://gateway/mcpd/api/v1/servers", base)).toBe(true);
+    expect(isMcpdUrl("http://gateway/mcpd-other/api", base)).toBe(false);
+    expect(isMcpdUrl("http://gateway/other", base)).toBe(false);
+  });
+});
+
+describe("addMcpdRequestHook", () => {
+  it("should pass other requests through untouched", async () => {
+    const { fetch, target } = createTarget();
+    const hook = vi.fn(() => ({ headers: { "x-hooked": "1" } }));
+    const remove = addMcpdRequestHook("http://mcpd", hook, target);
+    const init = { method: "POST" };
+
+    await target.fetch("http://collector:4318/v1/traces", init);
+    await target.fetch("http://mcpd/api/v1/servers", init);
+    remove();
+
+    expect(hook).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0]?.[1]).toBe(init);
+    expect(fetch.mock.calls[1]?.[1]).toEqual({ headers: { "x-hooked": "1" } });
+  });
+
+  it("should wrap fetch once for several hooks and restore it after the last", async () => {
+    const { fetch, target } = createTarget();
+    const removeFirst = addMcpdRequestHook(
+      "http://mcpd",
+      (_input, init) => ({ ...init, method: "PUT" }),
+      target,
+    );
+    const wrapped = target.fetch;
+    const removeSecond = addMcpdRequestHook(
+      "http://mcpd",
+      (_input, init) => ({ ...init, keepalive: true }),
+      target,
+    );
+
+    expect(target.fetch).toBe(wrapped);
+    await target.fetch("http://mcpd/api/v1/servers");
+    removeFirst();
+    expect(target.fetch).toBe(wrapped);
+    removeSecond();
+
+    expect(fetch.mock.calls[0]?.[1]).toEqual({
+      method: "PUT",
+      keepalive: true,
+    });
+    expect(target.fetch).toBe(fetch);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  METRICS_CONTENT_TYPE,
+  METRICS_PATH,
+  ProxyMetrics,
+  startMetricsServer,
+} from "../../src/metrics";
+import type { RunningHttpServer } from "../../src/http";
+
+describe("Counter", () => {
+  it("should count per label values", () => {
+    const counter = new Counter("calls_total", "Calls.", ["server", "result"]);
+
+    counter.inc({ server: "github", result: "ok" });
+    counter.inc({ result: "ok", server: "github" }, 2);
+    counter.inc({ server: "jira", result: "TimeoutError" });
+
+    expect(counter.get({ server: "github", result: "ok" })).toBe(3);
+    expect(counter.get({ server: "slack", result: "ok" })).toBe(0);
+    expect(counter.render()).toBe(
+      [
+        "# HELP calls_total Calls.",
+        "# TYPE calls_total counter",
+        'calls_total{server="github",result="ok"} 3',
+        'calls_total{server="jira",result="TimeoutError"} 1',
+      ].join("\n"),
+    );
+  });
+
+  it("should escape label values", () => {
+    const counter = new Counter("calls_total", "Calls.", ["tool"]);
+
+    counter.inc({ tool: 'say "hi"\\\n' });
+
+    expect(counter.render()).toContain(
+      'calls_total{tool="say \\"hi\\"\\\\\\n"} 1',
+    );
+  });
+});
+
+describe("Gauge", () => {
+  it("should set and reset series", () => {
+    const gauge = new Gauge("items", "Items.", ["catalog", "server"]);
+
+    gauge.set({ catalog: "tools", server: "github" }, 4);
+    gauge.set({ catalog: "tools", server: "jira" }, 2);
+    gauge.set({ catalog: "prompts", server: "github" }, 1);
+    gauge.reset({ catalog: "tools" });
+
+    expect(gauge.render().split("\n").slice(2)).toEqual([
+      'items{catalog="prompts",server="github"} 1',
+    ]);
+  });
+});
+
+describe("Histogram", () => {
+  it("should render cumulative buckets, sum and count", () => {
+    const histogram = new Histogram(
+      "latency_seconds",
+      "Latency.",
+      ["server"],
+      [0.1, 1],
+    );
+
+    histogram.observe({ server: "github" }, 0.05);
+    histogram.observe({ server: "github" }, 0.5);
+    histogram.observe({ server: "github" }, 3);
+
+    expect(histogram.render().split("\n")).toEqual([
+      "# HELP latency_seconds Latency.",
+      "# TYPE latency_seconds histogram",
+      'latency_seconds_bucket{server="github",le="0.1"} 1',
+      'latency_seconds_bucket{server="github",le="1"} 2',
+      'latency_seconds_bucket{server="github",le="+Inf"} 3',
+      'latency_seconds_sum{server="github"} 3.55',
+      'latency_seconds_count{server="github"} 3',
+    ]);
+  });
+});
+
+describe("ProxyMetrics", () => {
+  it("should track catalog sizes per server", () => {
+    const metrics = new ProxyMetrics();
+
+    metrics.setCatalogItems("tools", [
+      { _serverName: "github" },
+      { _serverName: "github" },
+      { _serverName: "jira" },
+    ]);
+    metrics.setCatalogItems("tools", [{ _serverName: "github" }]);
+
+    expect(metrics.render()).toContain(
+      'mcpd_proxy_catalog_items{catalog="tools",server="github"} 1\n',
+    );
+    expect(metrics.render()).not.toContain('server="jira"');
+  });
+
+  it("should describe every metric even before it has samples", () => {
+    const text = new ProxyMetrics().render();
+
+    expect(text.match(/^# TYPE .*$/gm)).toEqual([
+      "# TYPE mcpd_proxy_tool_calls_total counter",
+      "# TYPE mcpd_proxy_tool_call_duration_seconds histogram",
+      "# TYPE mcpd_proxy_mcpd_calls_total counter",
+      "# TYPE mcpd_proxy_mcpd_retries_total counter",
+      "# TYPE mcpd_proxy_mcpd_call_duration_seconds histogram",
+      "# TYPE mcpd_proxy_aggregation_duration_seconds histogram",
+      "# TYPE mcpd_proxy_catalog_items gauge",
+      "# TYPE mcpd_proxy_catalog_cache_requests_total counter",
+      "# TYPE mcpd_proxy_catalog_cache_refreshes_total counter",
+      "# TYPE mcpd_proxy_catalog_cache_loaded_timestamp_seconds gauge",
+    ]);
+    expect(text.endsWith("\n")).toBe(true);
+  });
+});
+
+describe("startMetricsServer", () => {
+  let running: RunningHttpServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    running = await startMetricsServer(
+      { host: "127.0.0.1", port: 0 },
+      () => "up 1\n",
+    );
+    baseUrl = `http://127.0.0.1:${running.address.port}`;
+  });
+
+  afterEach(async () => {
+    await running.close();
+  });
+
+  it("should serve metrics in the text format", async () => {
+    const response = await fetch(`${baseUrl}${METRICS_PATH}`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe(METRICS_CONTENT_TYPE);
+    expect(await response.text()).toBe("up 1\n");
+  });
+
+  it("should reject other paths and methods", async () => {
+    const notFound = await fetch(`${baseUrl}/mcp`);
+    const notAllowed = await fetch(`${baseUrl}${METRICS_PATH}`, {
+      method: "POST",
+    });
+
+    expect(notFound.status).toBe(404);
+    expect(notAllowed.status).toBe(405);
+  });
+});
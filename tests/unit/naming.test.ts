@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  canonicalName,
+  createPrefixer,
+  NameTable,
+  sanitizeName,
+} from "../../src/naming";
+
+describe("createPrefixer", () => {
+  it("should use server__ by default", () => {
+    expect(createPrefixer()("github")).toBe("github__");
+  });
+
+  it("should use a configured separator", () => {
+    expect(createPrefixer({ separator: "." })("github")).toBe("github.");
+  });
+
+  it("should prefer per-server aliases", () => {
+    const prefix = createPrefixer({
+      separator: "-",
+      serverAliases: { github: "gh_" },
+    });
+
+    expect(prefix("github")).toBe("gh_");
+    expect(prefix("jira")).toBe("jira-");
+  });
+
+  it("should ignore inherited alias keys", () => {
+    expect(createPrefixer({ serverAliases: {} })("constructor")).toBe(
+      "constructor__",
+    );
+  });
+});
+
+describe("canonicalName", () => {
+  it("should always use the default separator", () => {
+    expect(canonicalName("github", "create_issue")).toBe(
+      "github__create_issue",
+    );
+  });
+});
+
+describe("sanitizeName", () => {
+  it("should leave valid names unchanged", () => {
+    expect(sanitizeName("github__create-issue_2")).toBe(
+      "github__create-issue_2",
+    );
+  });
+
+  it("should replace invalid characters with underscores", () => {
+    expect(sanitizeName("my.server__get/time now")).toBe(
+      "my_server__get_time_now",
+    );
+  });
+
+  it("should truncate long names with a stable hash suffix", () => {
+    const name = `server__${"a".repeat(80)}`;
+
+    const result = sanitizeName(name);
+
+    expect(result).toHaveLength(64);
+    expect(result).toMatch(/^server__a+_[0-9a-f]{8}$/);
+    expect(sanitizeName(name)).toBe(result);
+  });
+
+  it("should keep truncated names distinct", () => {
+    const first = sanitizeName(`server__${"a".repeat(80)}_one`, 32);
+    const second = sanitizeName(`server__${"a".repeat(80)}_two`, 32);
+
+    expect(first).toHaveLength(32);
+    expect(second).toHaveLength(32);
+    expect(first).not.toBe(second);
+  });
+});
+
+describe("NameTable", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function item(name: string, server: string, original: string) {
+    return { name, _serverName: server, _originalName: original };
+  }
+
+  it("should resolve exposed names to their origin", () => {
+    const table = new NameTable("tool");
+    table.rebuild([item("gh_create_issue", "github", "create_issue")]);
+
+    expect(table.resolve("gh_create_issue")).toEqual({
+      server: "github",
+      name: "create_issue",
+    });
+    expect(table.resolve("github__create_issue")).toBeUndefined();
+  });
+
+  it("should route server names containing the separator", () => {
+    const table = new NameTable("tool");
+    table.rebuild([item("my__server__tool", "my__server", "tool")]);
+
+    expect(table.resolve("my__server__tool")).toEqual({
+      server: "my__server",
+      name: "tool",
+    });
+  });
+
+  it("should retain previous entries only when asked and the name is free", () => {
+    const table = new NameTable("tool");
+    table.rebuild([
+      item("github__search", "github", "search"),
+      item("jira__search", "jira", "search"),
+      item("shared", "github", "shared"),
+    ]);
+
+    table.rebuild(
+      [item("shared", "jira", "shared")],
+      (origin) => origin.server === "github",
+    );
+
+    expect(table.resolve("github__search")).toEqual({
+      server: "github",
+      name: "search",
+    });
+    expect(table.resolve("jira__search")).toBeUndefined();
+    expect(table.resolve("shared")).toEqual({ server: "jira", name: "shared" });
+  });
+
+  it("should keep the first item and record collisions", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const table = new NameTable("tool");
+
+    const kept = table.rebuild([
+      item("a__b__c", "a", "b__c"),
+      item("a__b__c", "a__b", "c"),
+    ]);
+
+    expect(kept).toHaveLength(1);
+    expect(table.resolve("a__b__c")).toEqual({ server: "a", name: "b__c" });
+    expect(table.collisions).toEqual([
+      {
+        name: "a__b__c",
+        kept: { server: "a", name: "b__c" },
+        dropped: { server: "a__b", name: "c" },
+      },
+    ]);
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report each collision only once", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const table = new NameTable("prompt");
+    const items = [item("x_p", "x", "p"), item("x_p", "y", "p")];
+
+    table.rebuild(items);
+    table.rebuild(items);
+
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(table.collisions).toHaveLength(1);
+  });
+
+  it("should drop entries missing from a rebuild", () => {
+    const table = new NameTable("tool");
+    table.rebuild([item("a__t", "a", "t")]);
+    table.rebuild([]);
+
+    expect(table.resolve("a__t")).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { decodeCursor, encodeCursor, paginate } from "../../src/pagination";
+
+const key = (item: { name: string }) => item.name;
+
+function items(...names: string[]) {
+  return names.map((name) => ({ name }));
+}
+
+describe("encodeCursor / decodeCursor", () => {
+  it("should round-trip the last key", () => {
+    const cursor = encodeCursor("tools", "github__search");
+    expect(decodeCursor("tools", cursor)).toBe("github__search");
+  });
+
+  it("should reject cursors from another list", () => {
+    const cursor = encodeCursor("prompts", "github__search");
+    expect(() => decodeCursor("tools", cursor)).toThrow(McpError);
+  });
+
+  it("should reject malformed cursors with InvalidParams", () => {
+    try {
+      decodeCursor("tools", "not a cursor");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+    }
+  });
+});
+
+describe("paginate", () => {
+  it("should return everything on one page when it fits", () => {
+    const page = paginate(items("b", "a"), { list: "x", key, pageSize: 10 });
+
+    expect(page.items).toEqual(items("a", "b"));
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it("should walk every item exactly once in key order", () => {
+    const all = items("e", "c", "a", "d", "b");
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = paginate(all, { list: "x", key, pageSize: 2, cursor });
+      seen.push(...page.items.map(key));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("should not return a cursor when the last page is exactly full", () => {
+    const page = paginate(items("a", "b"), { list: "x", key, pageSize: 2 });
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it("should continue after the cursor when items disappear", () => {
+    const first = paginate(items("a", "b", "c", "d"), {
+      list: "x",
+      key,
+      pageSize: 2,
+    });
+
+    // "b" (the cursor position) and "c" went away between requests.
+    const second = paginate(items("a", "d", "e"), {
+      list: "x",
+      key,
+      pageSize: 2,
+      cursor: first.nextCursor,
+    });
+
+    expect(second.items).toEqual(items("d", "e"));
+  });
+
+  it("should sort by code unit independent of locale", () => {
+    const page = paginate(items("b", "B", "a", "_"), {
+      list: "x",
+      key,
+      pageSize: 10,
+    });
+    expect(page.items.map(key)).toEqual(["B", "_", "a", "b"]);
+  });
+});
@@ -26,6 +26,14 @@ describe("parsePrefixedName", () => {
     });
   });
 
+  it("should split on a custom separator", () => {
+    const result = parsePrefixedName("github.create_issue", "tool", ".");
+    expect(result).toEqual({
+      server: "github",
+      name: "create_issue",
+    });
+  });
+
   it("should throw error for invalid format without separator", () => {
     expect(() => parsePrefixedName("invalid", "tool")).toThrow(
       "Invalid tool name format: invalid. Expected format: server__tool_name",
@@ -70,6 +78,24 @@ describe("parseResourceUri", () => {
     });
   });
 
+  it("should keep the query and fragment of the upstream URI", () => {
+    const result = parseResourceUri(
+      "mcpd://db/postgres://db/users?limit=10&offset=20#top",
+    );
+    expect(result).toEqual({
+      server: "db",
+      originalUri: "postgres://db/users?limit=10&offset=20#top",
+    });
+  });
+
+  it("should not normalize dot segments in the upstream URI", () => {
+    const result = parseResourceUri("mcpd://files/file:///a/../b.txt");
+    expect(result).toEqual({
+      server: "files",
+      originalUri: "file:///a/../b.txt",
+    });
+  });
+
   it("should throw error for invalid scheme", () => {
     expect(() => parseResourceUri("http://server/path")).toThrow(
       "Invalid resource URI format: http://server/path. Expected format: mcpd://server/uri",
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { ProgressNotification } from "@modelcontextprotocol/sdk/types.js";
+import { startProgressHeartbeat } from "../../src/progress";
+
+describe("startProgressHeartbeat", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createSender() {
+    const sent: ProgressNotification[] = [];
+    const send = vi.fn(async (notification: ProgressNotification) => {
+      sent.push(notification);
+    });
+    return { sent, send };
+  }
+
+  it("should send counting heartbeats until stopped", async () => {
+    const { sent, send } = createSender();
+
+    const stop = startProgressHeartbeat("token-1", {
+      intervalMs: 1_000,
+      message: (elapsedMs) => `${Math.round(elapsedMs / 1000)}s elapsed`,
+      send,
+    });
+    await vi.advanceTimersByTimeAsync(2_500);
+    stop();
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    expect(sent).toEqual([
+      {
+        method: "notifications/progress",
+        params: {
+          progressToken: "token-1",
+          progress: 1,
+          message: "1s elapsed",
+        },
+      },
+      {
+        method: "notifications/progress",
+        params: {
+          progressToken: "token-1",
+          progress: 2,
+          message: "2s elapsed",
+        },
+      },
+    ]);
+  });
+
+  it("should send nothing without a progress token or interval", async () => {
+    const { send } = createSender();
+
+    startProgressHeartbeat(undefined, {
+      intervalMs: 1_000,
+      message: () => "",
+      send,
+    });
+    startProgressHeartbeat(0, { intervalMs: 0, message: () => "", send });
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("should report failed sends and keep beating", async () => {
+    const onError = vi.fn();
+    const send = vi.fn(async () => {
+      throw new Error("Not connected");
+    });
+
+    const stop = startProgressHeartbeat("token-1", {
+      intervalMs: 1_000,
+      message: () => "",
+      send,
+      onError,
+    });
+    await vi.advanceTimersByTimeAsync(2_000);
+    stop();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledWith(new Error("Not connected"));
+  });
+});
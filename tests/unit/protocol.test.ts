@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { LATEST_PROTOCOL_VERSION } from "@modelcontextprotocol/sdk/types.js";
+import {
+  getProtocolFeatures,
+  negotiateProtocolVersion,
+} from "../../src/protocol";
+
+describe("negotiateProtocolVersion", () => {
+  it("should accept supported versions", () => {
+    expect(negotiateProtocolVersion("2024-11-05")).toBe("2024-11-05");
+    expect(negotiateProtocolVersion("2025-06-18")).toBe("2025-06-18");
+    expect(negotiateProtocolVersion(LATEST_PROTOCOL_VERSION)).toBe(
+      LATEST_PROTOCOL_VERSION,
+    );
+  });
+
+  it("should answer unsupported versions with the latest version", () => {
+    expect(negotiateProtocolVersion("2099-01-01")).toBe(
+      LATEST_PROTOCOL_VERSION,
+    );
+    expect(negotiateProtocolVersion("not-a-version")).toBe(
+      LATEST_PROTOCOL_VERSION,
+    );
+  });
+});
+
+describe("getProtocolFeatures", () => {
+  it("should disable newer features for 2024-11-05", () => {
+    expect(getProtocolFeatures("2024-11-05")).toEqual({
+      toolAnnotations: false,
+      structuredContent: false,
+      titles: false,
+    });
+  });
+
+  it("should enable tool annotations from 2025-03-26", () => {
+    expect(getProtocolFeatures("2025-03-26")).toEqual({
+      toolAnnotations: true,
+      structuredContent: false,
+      titles: false,
+    });
+  });
+
+  it("should enable structured content and titles from 2025-06-18", () => {
+    const expected = {
+      toolAnnotations: true,
+      structuredContent: true,
+      titles: true,
+    };
+    expect(getProtocolFeatures("2025-06-18")).toEqual(expected);
+    expect(getProtocolFeatures(LATEST_PROTOCOL_VERSION)).toEqual(expected);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { parseCallToolResult, toCallToolResult } from "../../src/results";
+
+describe("parseCallToolResult", () => {
+  it("should accept MCP-shaped results", () => {
+    const result = {
+      content: [{ type: "text", text: "hello" }],
+      isError: false,
+    };
+    expect(parseCallToolResult(result)).toEqual(result);
+  });
+
+  it("should reject objects without a content array", () => {
+    expect(parseCallToolResult({ result: "ok" })).toBeUndefined();
+    expect(parseCallToolResult({ content: "text" })).toBeUndefined();
+  });
+
+  it("should reject invalid content blocks", () => {
+    expect(
+      parseCallToolResult({ content: [{ type: "text" }] }),
+    ).toBeUndefined();
+  });
+
+  it("should reject non-objects", () => {
+    expect(parseCallToolResult("text")).toBeUndefined();
+    expect(parseCallToolResult(null)).toBeUndefined();
+    expect(parseCallToolResult([])).toBeUndefined();
+  });
+});
+
+describe("toCallToolResult", () => {
+  it("should pass through MCP content blocks unchanged", () => {
+    const result = {
+      content: [
+        { type: "text", text: "Chart:" },
+        { type: "image", data: "aGVsbG8=", mimeType: "image/png" },
+        {
+          type: "resource",
+          resource: { uri: "file:///a.txt", text: "a", mimeType: "text/plain" },
+        },
+      ],
+    };
+    expect(toCallToolResult(result)).toEqual(result);
+  });
+
+  it("should preserve isError from upstream", () => {
+    const result = {
+      content: [{ type: "text", text: "Rate limited" }],
+      isError: true,
+    };
+    expect(toCallToolResult(result)).toEqual(result);
+  });
+
+  it("should preserve upstream structuredContent", () => {
+    const result = {
+      content: [{ type: "text", text: '{"temp":21}' }],
+      structuredContent: { temp: 21 },
+    };
+    expect(toCallToolResult(result, { hasOutputSchema: true })).toEqual(result);
+  });
+
+  it("should derive structuredContent from a JSON text block when a schema is declared", () => {
+    const result = { content: [{ type: "text", text: '{"temp":21}' }] };
+    expect(toCallToolResult(result, { hasOutputSchema: true })).toEqual({
+      ...result,
+      structuredContent: { temp: 21 },
+    });
+  });
+
+  it("should not derive structuredContent without a schema", () => {
+    const result = { content: [{ type: "text", text: '{"temp":21}' }] };
+    expect(toCallToolResult(result)).toEqual(result);
+  });
+
+  it("should not derive structuredContent from non-JSON text", () => {
+    const result = { content: [{ type: "text", text: "21 degrees" }] };
+    expect(toCallToolResult(result, { hasOutputSchema: true })).toEqual(result);
+  });
+
+  it("should serialize non-MCP payloads as text", () => {
+    expect(toCallToolResult({ result: "ok" })).toEqual({
+      content: [{ type: "text", text: '{\n  "result": "ok"\n}' }],
+    });
+    expect(toCallToolResult("plain")).toEqual({
+      content: [{ type: "text", text: '"plain"' }],
+    });
+  });
+
+  it("should use non-MCP objects as structuredContent when a schema is declared", () => {
+    expect(toCallToolResult({ temp: 21 }, { hasOutputSchema: true })).toEqual({
+      content: [{ type: "text", text: '{\n  "temp": 21\n}' }],
+      structuredContent: { temp: 21 },
+    });
+  });
+
+  it("should drop structuredContent for clients that do not support it", () => {
+    const result = {
+      content: [{ type: "text", text: '{"temp":21}' }],
+      structuredContent: { temp: 21 },
+    };
+    const options = { hasOutputSchema: true, structuredContent: false };
+
+    expect(toCallToolResult(result, options)).toEqual({
+      content: [{ type: "text", text: '{"temp":21}' }],
+    });
+    expect(toCallToolResult({ temp: 21 }, options)).toEqual({
+      content: [{ type: "text", text: '{\n  "temp": 21\n}' }],
+    });
+  });
+
+  it("should not use arrays as structuredContent", () => {
+    expect(toCallToolResult([1, 2], { hasOutputSchema: true })).toEqual({
+      content: [{ type: "text", text: "[\n  1,\n  2\n]" }],
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from "vitest";
+import { ConnectionError, ToolExecutionError } from "@mozilla-ai/mcpd";
+import {
+  backoffDelay,
+  isIdempotentTool,
+  retryOptionsFromConfig,
+  withRetry,
+} from "../../src/retry";
+
+const options = { retries: 2, baseDelayMs: 1, maxDelayMs: 4 };
+
+describe("backoffDelay", () => {
+  it("should double the delay per retry up to the cap, with jitter", () => {
+    const delays = { baseDelayMs: 100, maxDelayMs: 300 };
+
+    expect(backoffDelay(1, { ...delays, random: () => 0 })).toBe(50);
+    expect(backoffDelay(1, { ...delays, random: () => 1 })).toBe(100);
+    expect(backoffDelay(2, { ...delays, random: () => 1 })).toBe(200);
+    expect(backoffDelay(5, { ...delays, random: () => 0.5 })).toBe(225);
+  });
+});
+
+describe("withRetry", () => {
+  it("should retry connection errors until the call succeeds", async () => {
+    const call = vi
+      .fn()
+      .mockRejectedValueOnce(new ConnectionError("Connection refused"))
+      .mockResolvedValueOnce("done");
+    const onRetry = vi.fn();
+
+    expect(await withRetry(call, options, onRetry)).toBe("done");
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith({
+      retry: 1,
+      delayMs: expect.any(Number),
+      error: new ConnectionError("Connection refused"),
+    });
+  });
+
+  it("should give up after the configured retries", async () => {
+    const call = vi
+      .fn()
+      .mockRejectedValue(new ConnectionError("Connection refused"));
+
+    await expect(withRetry(call, options)).rejects.toThrow(ConnectionError);
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry other errors", async () => {
+    const call = vi
+      .fn()
+      .mockRejectedValue(new ToolExecutionError("Bad arguments", "github"));
+
+    await expect(withRetry(call, options)).rejects.toThrow("Bad arguments");
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("retryOptionsFromConfig", () => {
+  it("should fill in defaults", () => {
+    expect(retryOptionsFromConfig({ retries: 0 })).toEqual({
+      retries: 0,
+      baseDelayMs: 200,
+      maxDelayMs: 2000,
+    });
+  });
+});
+
+describe("isIdempotentTool", () => {
+  it("should accept idempotent and read-only tools only", () => {
+    expect(isIdempotentTool({ idempotentHint: true })).toBe(true);
+    expect(isIdempotentTool({ readOnlyHint: true })).toBe(true);
+    expect(isIdempotentTool({ destructiveHint: false })).toBe(false);
+    expect(isIdempotentTool(undefined)).toBe(false);
+  });
+});
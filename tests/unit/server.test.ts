@@ -1,82 +1,1760 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import {
+  createCatalogs,
+  createMcpdClient,
   createMcpServer,
   parsePrefixedName,
   parseResourceUri,
 } from "../../src/server";
+import { propagateAbortSignal } from "../../src/cancellation";
 import type { Config } from "../../src/config";
+import { metrics } from "../../src/metrics";
+import { STATUS_TOOL } from "../../src/status";
+import { tracer, type SpanData } from "../../src/tracing";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
 import {
+  LATEST_PROTOCOL_VERSION,
+  LoggingMessageNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  ConnectionError,
   PipelineError,
   PIPELINE_FLOW_REQUEST,
   PIPELINE_FLOW_RESPONSE,
+  ServerUnhealthyError,
+  TimeoutError,
+  ToolNotFoundError,
 } from "@mozilla-ai/mcpd";
 
-// Create mock functions at module level (before vi.mock hoisting).
-const mockListServers = vi.fn();
-const mockGetServerHealth = vi.fn();
-const mockGeneratePrompt = vi.fn();
-const mockCallTool = vi.fn();
-const mockGetTools = vi.fn();
-const mockGetPrompts = vi.fn();
-const mockGetResources = vi.fn();
-const mockGetResourceTemplates = vi.fn();
-const mockReadResource = vi.fn();
+// Create mock functions at module level (before vi.mock hoisting).
+const mockListServers = vi.fn();
+const mockGetServerHealth = vi.fn();
+const mockGeneratePrompt = vi.fn();
+const mockCallTool = vi.fn();
+const mockGetTools = vi.fn();
+const mockGetPrompts = vi.fn();
+const mockGetResources = vi.fn();
+const mockGetResourceTemplates = vi.fn();
+const mockReadResource = vi.fn();
+
+// Mock only the McpdClient class; real error classes and constants pass through.
+vi.mock("@mozilla-ai/mcpd", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@mozilla-ai/mcpd")>()),
+  McpdClient: vi.fn(
+    class {
+      listServers = mockListServers;
+      getServerHealth = mockGetServerHealth;
+      generatePrompt = mockGeneratePrompt;
+      servers = new Proxy(
+        {},
+        {
+          get: () => ({
+            callTool: mockCallTool,
+            generatePrompt: mockGeneratePrompt,
+            getTools: mockGetTools,
+            getPrompts: mockGetPrompts,
+            getResources: mockGetResources,
+            getResourceTemplates: mockGetResourceTemplates,
+            readResource: mockReadResource,
+          }),
+        },
+      );
+    },
+  ),
+}));
+
+// Retrieves a registered request handler from the MCP server internals.
+function getHandler(
+  server: ReturnType<typeof createMcpServer>,
+  method: string,
+) {
+  const handlers = (
+    server as unknown as {
+      _requestHandlers: Map<string, (req: unknown) => Promise<unknown>>;
+    }
+  )._requestHandlers;
+  return handlers.get(method)!;
+}
+
+describe("Server Request Handlers", () => {
+  let config: Config;
+
+  beforeEach(() => {
+    config = {
+      mcpdAddr: "http://localhost:8090",
+      mcpdApiKey: undefined,
+    };
+
+    // Reset all mocks before each test.
+    vi.clearAllMocks();
+
+    // Set default return values.
+    mockListServers.mockResolvedValue(["server1", "server2"]);
+    mockGetServerHealth.mockResolvedValue({
+      server1: { name: "server1", status: "ok" },
+      server2: { name: "server2", status: "ok" },
+    });
+    mockGetTools.mockResolvedValue([]);
+    mockGetPrompts.mockResolvedValue([]);
+    mockGetResources.mockResolvedValue([]);
+    mockGetResourceTemplates.mockResolvedValue([]);
+    mockCallTool.mockResolvedValue({ result: "success" });
+    mockReadResource.mockResolvedValue([{ uri: "test", text: "content" }]);
+  });
+
+  describe("Server Creation", () => {
+    it("should create an MCP server with correct configuration", () => {
+      const server = createMcpServer(config);
+      expect(server).toBeDefined();
+    });
+  });
+
+  describe("Capabilities", () => {
+    function getCapabilities(server: ReturnType<typeof createMcpServer>) {
+      return (
+        server as unknown as {
+          _capabilities: Record<string, { listChanged?: boolean }>;
+        }
+      )._capabilities;
+    }
+
+    it("should advertise listChanged when watching is enabled", () => {
+      const capabilities = getCapabilities(createMcpServer(config));
+
+      expect(capabilities.tools?.listChanged).toBe(true);
+      expect(capabilities.prompts?.listChanged).toBe(true);
+      expect(capabilities.resources?.listChanged).toBe(true);
+    });
+
+    it("should not advertise listChanged when watching is disabled", () => {
+      const capabilities = getCapabilities(
+        createMcpServer({ ...config, watchIntervalMs: 0 }),
+      );
+
+      expect(capabilities.tools?.listChanged).toBe(false);
+    });
+  });
+
+  describe("Protocol version negotiation", () => {
+    function initialize(
+      server: ReturnType<typeof createMcpServer>,
+      protocolVersion: string,
+    ) {
+      return getHandler(
+        server,
+        "initialize",
+      )({
+        method: "initialize",
+        params: {
+          protocolVersion,
+          capabilities: {},
+          clientInfo: { name: "test", version: "1.0.0" },
+        },
+      }) as Promise<{ protocolVersion: string }>;
+    }
+
+    beforeEach(() => {
+      mockListServers.mockResolvedValue(["server1"]);
+      mockGetServerHealth.mockResolvedValue({
+        server1: { name: "server1", status: "ok" },
+      });
+      // Reset drops queued once-values left by earlier tests.
+      mockGetTools.mockReset().mockResolvedValue([
+        {
+          name: "get_weather",
+          title: "Get Weather",
+          inputSchema: { type: "object" },
+          outputSchema: { type: "object" },
+          annotations: { readOnlyHint: true },
+        },
+      ]);
+    });
+
+    it("should answer with the version the client requested", async () => {
+      const server = createMcpServer(config);
+
+      const result = await initialize(server, "2025-06-18");
+
+      expect(result.protocolVersion).toBe("2025-06-18");
+    });
+
+    it("should answer unsupported versions with the latest version", async () => {
+      const server = createMcpServer(config);
+
+      const result = await initialize(server, "1999-01-01");
+
+      expect(result.protocolVersion).toBe(LATEST_PROTOCOL_VERSION);
+    });
+
+    it("should hide newer tool fields from 2024-11-05 clients", async () => {
+      const server = createMcpServer(config);
+      await initialize(server, "2024-11-05");
+
+      const result = (await getHandler(
+        server,
+        "tools/list",
+      )({ method: "tools/list", params: {} })) as {
+        tools: Array<Record<string, unknown>>;
+      };
+
+      expect(result.tools).toEqual([
+        {
+          name: STATUS_TOOL.name,
+          description: STATUS_TOOL.description,
+          inputSchema: STATUS_TOOL.inputSchema,
+        },
+        {
+          name: "server1__get_weather",
+          description: "Tool server1__get_weather",
+          inputSchema: { type: "object" },
+        },
+      ]);
+    });
+
+    it("should send annotations but not titles to 2025-03-26 clients", async () => {
+      const server = createMcpServer(config);
+      await initialize(server, "2025-03-26");
+
+      const result = (await getHandler(
+        server,
+        "tools/list",
+      )({ method: "tools/list", params: {} })) as {
+        tools: Array<Record<string, unknown>>;
+      };
+
+      const tool = result.tools.find(
+        ({ name }) => name === "server1__get_weather",
+      );
+      expect(tool?.annotations).toEqual({ readOnlyHint: true });
+      expect(tool).not.toHaveProperty("title");
+      expect(tool).not.toHaveProperty("outputSchema");
+    });
+
+    it("should not return structuredContent to 2024-11-05 clients", async () => {
+      mockCallTool.mockResolvedValue({ temp: 21 });
+      const server = createMcpServer(config);
+      await initialize(server, "2024-11-05");
+
+      const result = await getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: "server1__get_weather", arguments: {} },
+      });
+
+      expect(result).toEqual({
+        content: [{ type: "text", text: '{\n  "temp": 21\n}' }],
+      });
+    });
+
+    it("should keep the negotiated version per server instance", async () => {
+      const oldClientServer = createMcpServer(config);
+      const newClientServer = createMcpServer(config);
+      await initialize(oldClientServer, "2024-11-05");
+      await initialize(newClientServer, "2025-06-18");
+
+      const listTools = (server: ReturnType<typeof createMcpServer>) =>
+        getHandler(
+          server,
+          "tools/list",
+        )({ method: "tools/list", params: {} }) as Promise<{
+          tools: Array<Record<string, unknown>>;
+        }>;
+
+      const weather = async (server: ReturnType<typeof createMcpServer>) =>
+        (await listTools(server)).tools.find(
+          ({ name }) => name === "server1__get_weather",
+        );
+
+      expect(await weather(oldClientServer)).not.toHaveProperty("title");
+      expect((await weather(newClientServer))?.title).toBe("Get Weather");
+    });
+  });
+
+  describe("List change notifications", () => {
+    it("should notify connected clients when tools change", async () => {
+      mockListServers.mockResolvedValue(["server1"]);
+      mockGetServerHealth.mockResolvedValue({
+        server1: { name: "server1", status: "ok" },
+      });
+      // Reset drops queued once-values left by earlier tests.
+      mockGetTools.mockReset().mockResolvedValue([]);
+
+      const server = createMcpServer({ ...config, watchIntervalMs: 10 });
+      const client = new Client({ name: "test", version: "1.0.0" });
+      const toolsChanged = new Promise<void>((resolve) =>
+        client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+          resolve(),
+        ),
+      );
+
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      // Let the baseline poll run before the catalog changes.
+      await vi.waitFor(() => expect(mockGetTools).toHaveBeenCalled());
+      mockGetTools.mockResolvedValue([
+        { name: "new_tool", inputSchema: { type: "object" } },
+      ]);
+
+      await toolsChanged;
+      await client.close();
+    });
+
+    it("should poll once per interval however many sessions watch", async () => {
+      mockListServers.mockResolvedValue(["server1"]);
+      mockGetServerHealth.mockResolvedValue({
+        server1: { name: "server1", status: "ok" },
+      });
+      // A poll that never finishes leaves exactly one refresh per watcher.
+      mockGetTools.mockReset().mockReturnValue(new Promise(() => {}));
+      const catalogs = createCatalogs(
+        { ...config, watchIntervalMs: 10 },
+        createMcpdClient(config),
+      );
+      const refresh = vi.spyOn(catalogs.tools, "refresh");
+
+      const unwatch = [catalogs.watch(vi.fn()), catalogs.watch(vi.fn())];
+      await vi.waitFor(() => expect(refresh).toHaveBeenCalled());
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      expect(refresh).toHaveBeenCalledTimes(1);
+      unwatch.forEach((stop) => stop());
+    });
+  });
+
+  describe("Completions", () => {
+    function complete(
+      server: ReturnType<typeof createMcpServer>,
+      params: Record<string, unknown>,
+    ) {
+      return getHandler(
+        server,
+        "completion/complete",
+      )({ method: "completion/complete", params }) as Promise<{
+        completion: { values: string[]; total?: number; hasMore?: boolean };
+      }>;
+    }
+
+    beforeEach(() => {
+      mockListServers.mockResolvedValue(["server1"]);
+      mockGetServerHealth.mockResolvedValue({
+        server1: { name: "server1", status: "ok" },
+      });
+      // Reset drops queued once-values left by earlier tests.
+      mockGetPrompts.mockReset().mockResolvedValue([
+        {
+          name: "review",
+          arguments: [
+            {
+              name: "language",
+              schema: { type: "string", enum: ["python", "perl", "go"] },
+            },
+            { name: "notes" },
+          ],
+        },
+      ]);
+      mockGetResourceTemplates
+        .mockReset()
+        .mockResolvedValue([{ uriTemplate: "file:///{path}", name: "files" }]);
+    });
+
+    it("should advertise the completions capability", () => {
+      const capabilities = (
+        createMcpServer(config) as unknown as {
+          _capabilities: Record<string, unknown>;
+        }
+      )._capabilities;
+
+      expect(capabilities.completions).toEqual({});
+    });
+
+    it("should suggest enum values for prompt arguments", async () => {
+      const result = await complete(createMcpServer(config), {
+        ref: { type: "ref/prompt", name: "server1__review" },
+        argument: { name: "language", value: "p" },
+      });
+
+      expect(result.completion).toEqual({
+        values: ["python", "perl"],
+        total: 2,
+        hasMore: false,
+      });
+    });
+
+    it("should complete from the cached catalog without calling mcpd", async () => {
+      const server = createMcpServer(config);
+      const params = {
+        ref: { type: "ref/prompt", name: "server1__review" },
+        argument: { name: "language", value: "p" },
+      };
+      await complete(server, params);
+      mockGetPrompts.mockClear();
+
+      const result = await complete(server, {
+        ...params,
+        argument: { name: "language", value: "py" },
+      });
+
+      expect(result.completion.values).toEqual(["python"]);
+      expect(mockGetPrompts).not.toHaveBeenCalled();
+      expect(metrics.render()).not.toContain('operation="complete"');
+    });
+
+    it("should return no values for arguments without a schema", async () => {
+      const result = await complete(createMcpServer(config), {
+        ref: { type: "ref/prompt", name: "server1__review" },
+        argument: { name: "notes", value: "" },
+      });
+
+      expect(result.completion.values).toEqual([]);
+    });
+
+    it("should reject unknown prompts", async () => {
+      await expect(
+        complete(createMcpServer(config), {
+          ref: { type: "ref/prompt", name: "server1__missing" },
+          argument: { name: "language", value: "" },
+        }),
+      ).rejects.toThrow("Prompt 'server1__missing' not found");
+    });
+
+    it("should accept known resource templates", async () => {
+      const result = await complete(createMcpServer(config), {
+        ref: { type: "ref/resource", uri: "mcpd://server1/file:///{path}" },
+        argument: { name: "path", value: "" },
+      });
+
+      expect(result.completion.values).toEqual([]);
+    });
+
+    it("should reject unknown resource templates", async () => {
+      await expect(
+        complete(createMcpServer(config), {
+          ref: { type: "ref/resource", uri: "db://{table}" },
+          argument: { name: "table", value: "" },
+        }),
+      ).rejects.toThrow("Resource template 'db://{table}' not found");
+    });
+  });
+
+  describe("Pagination", () => {
+    async function connect(pageSize: number, overrides: Partial<Config> = {}) {
+      const client = new Client({ name: "test", version: "1.0.0" });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await createMcpServer({
+        ...config,
+        watchIntervalMs: 0,
+        pageSize,
+        ...overrides,
+      }).connect(serverTransport);
+      await client.connect(clientTransport);
+      return client;
+    }
+
+    beforeEach(() => {
+      mockListServers.mockResolvedValue(["alpha", "beta"]);
+      mockGetServerHealth.mockResolvedValue({
+        alpha: { name: "alpha", status: "ok" },
+        beta: { name: "beta", status: "ok" },
+      });
+      // Reset drops queued once-values left by earlier tests.
+      mockGetTools.mockReset().mockResolvedValue([
+        { name: "one", inputSchema: { type: "object" } },
+        { name: "two", inputSchema: { type: "object" } },
+      ]);
+      mockGetPrompts
+        .mockReset()
+        .mockResolvedValue([{ name: "p1" }, { name: "p2" }]);
+      mockGetResources.mockReset().mockResolvedValue([
+        { uri: "r1", name: "r1" },
+        { uri: "r2", name: "r2" },
+      ]);
+      mockGetResourceTemplates
+        .mockReset()
+        .mockResolvedValue([{ uriTemplate: "t/{id}", name: "t" }]);
+    });
+
+    it("should page through tools with opaque cursors", async () => {
+      const client = await connect(3);
+
+      const first = await client.listTools();
+      const second = await client.listTools({ cursor: first.nextCursor });
+      await client.close();
+
+      expect(first.tools.map((tool) => tool.name)).toEqual([
+        "alpha__one",
+        "alpha__two",
+        "beta__one",
+      ]);
+      expect(first.nextCursor).toEqual(expect.any(String));
+      expect(second.tools.map((tool) => tool.name)).toEqual([
+        "beta__two",
+        "proxy__status",
+      ]);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it("should page prompts, resources and resource templates", async () => {
+      const client = await connect(1);
+
+      const prompts = await client.listPrompts();
+      const resources = await client.listResources();
+      const templates = await client.listResourceTemplates();
+      await client.close();
+
+      expect(prompts.prompts.map((prompt) => prompt.name)).toEqual([
+        "alpha__p1",
+      ]);
+      expect(resources.resources.map((resource) => resource.uri)).toEqual([
+        "mcpd-proxy://diagnostics",
+      ]);
+      expect(
+        templates.resourceTemplates.map((template) => template.uriTemplate),
+      ).toEqual(["mcpd://alpha/t/{id}"]);
+      expect(prompts.nextCursor).toBeDefined();
+      expect(resources.nextCursor).toBeDefined();
+      expect(templates.nextCursor).toBeDefined();
+    });
+
+    it("should keep cursors valid when a server goes unhealthy mid-iteration", async () => {
+      // Disable the catalog cache so the second page sees the health change.
+      const client = await connect(1, { catalogTtlMs: { tools: 0 } });
+
+      const first = await client.listTools();
+      mockGetServerHealth.mockResolvedValue({
+        alpha: { name: "alpha", status: "unreachable" },
+        beta: { name: "beta", status: "ok" },
+      });
+      const second = await client.listTools({ cursor: first.nextCursor });
+      await client.close();
+
+      expect(first.tools.map((tool) => tool.name)).toEqual(["alpha__one"]);
+      expect(second.tools.map((tool) => tool.name)).toEqual(["beta__one"]);
+    });
+
+    it("should reject invalid cursors", async () => {
+      const client = await connect(1);
+
+      await expect(client.listTools({ cursor: "bogus" })).rejects.toThrow(
+        "Invalid cursor",
+      );
+      await client.close();
+    });
+  });
+
+  describe("Diagnostics", () => {
+    async function connect(server: ReturnType<typeof createMcpServer>) {
+      const client = new Client({ name: "test", version: "1.0.0" });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+      return client;
+    }
+
+    beforeEach(() => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockListServers.mockResolvedValue(["server1"]);
+      mockGetServerHealth.mockResolvedValue({
+        server1: { name: "server1", status: "ok" },
+      });
+      mockGetTools
+        .mockReset()
+        .mockRejectedValue(new ConnectionError("Connection refused"));
+    });
+
+    afterEach(() => {
+      vi.mocked(console.error).mockRestore();
+    });
+
+    it("should log failed servers to the client", async () => {
+      const client = await connect(
+        createMcpServer({ ...config, watchIntervalMs: 0, retries: 0 }),
+      );
+      const logged = new Promise<unknown>((resolve) =>
+        client.setNotificationHandler(
+          LoggingMessageNotificationSchema,
+          (notification) => resolve(notification.params),
+        ),
+      );
+
+      await client.listTools();
+
+      expect(await logged).toEqual({
+        level: "warning",
+        logger: "mcpd-proxy",
+        data: {
+          message:
+            "Skipped server 'server1' while listing tools (ConnectionError): Connection refused",
+          failure: expect.objectContaining({
+            server: "server1",
+            catalog: "tools",
+            errorType: "ConnectionError",
+            message: "Connection refused",
+          }),
+        },
+      });
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining("(ConnectionError): Connection refused"),
+      );
+      await client.close();
+    });
+
+    it("should list and serve the diagnostics resource", async () => {
+      const client = await connect(
+        createMcpServer({ ...config, watchIntervalMs: 0 }),
+      );
+
+      await client.listTools();
+      const { resources } = await client.listResources();
+      const { contents } = await client.readResource({
+        uri: "mcpd-proxy://diagnostics",
+      });
+      await client.close();
+
+      expect(resources.map((resource) => resource.uri)).toContain(
+        "mcpd-proxy://diagnostics",
+      );
+      const { text } = contents[0] as { text: string };
+      expect(JSON.parse(text).failures).toEqual([
+        expect.objectContaining({
+          server: "server1",
+          catalog: "tools",
+          errorType: "ConnectionError",
+        }),
+      ]);
+      expect(mockReadResource).not.toHaveBeenCalledWith(
+        "mcpd-proxy://diagnostics",
+      );
+    });
+  });
+
+  describe("Logging", () => {
+    async function connect() {
+      const client = new Client({ name: "test", version: "1.0.0" });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await createMcpServer({ ...config, watchIntervalMs: 0 }).connect(
+        serverTransport,
+      );
+      await client.connect(clientTransport);
+      const messages: Array<{ level: string; data: unknown }> = [];
+      client.setNotificationHandler(
+        LoggingMessageNotificationSchema,
+        (notification) => {
+          messages.push(notification.params);
+        },
+      );
+      return { client, messages };
+    }
+
+    beforeEach(() => {
+      mockGetServerHealth.mockResolvedValue({});
+    });
+
+    it("should forward request logs once the client lowers its level", async () => {
+      const { client, messages } = await connect();
+
+      await client.ping();
+      expect(messages).toEqual([]);
+
+      await client.setLoggingLevel("debug");
+      messages.length = 0;
+      await client.ping();
+      await client.close();
+
+      expect(messages).toEqual([
+        {
+          level: "debug",
+          logger: "mcpd-proxy",
+          data: expect.objectContaining({
+            message: "Request ping",
+            method: "ping",
+          }),
+        },
+        {
+          level: "debug",
+          logger: "mcpd-proxy",
+          data: expect.objectContaining({
+            message: "mcpd getServerHealth succeeded",
+            operation: "getServerHealth",
+          }),
+        },
+        {
+          level: "debug",
+          logger: "mcpd-proxy",
+          data: expect.objectContaining({
+            message: "Response ping",
+            method: "ping",
+            durationMs: expect.any(Number),
+          }),
+        },
+      ]);
+    });
+
+    it("should not forward another session's request logs", async () => {
+      const first = await connect();
+      const second = await connect();
+      await first.client.setLoggingLevel("debug");
+      await second.client.setLoggingLevel("debug");
+      second.messages.length = 0;
+
+      await first.client.ping();
+      await first.client.close();
+      await second.client.close();
+
+      expect(first.messages).not.toEqual([]);
+      expect(second.messages).toEqual([]);
+    });
+  });
+
+  describe("Tracing", () => {
+    let spans: SpanData[];
+
+    async function callTool(name: string) {
+      await getHandler(
+        createMcpServer(config),
+        "tools/call",
+      )({ method: "tools/call", params: { name, arguments: {} } });
+      await tracer.flush();
+    }
+
+    beforeEach(() => {
+      spans = [];
+      tracer.configure({
+        exporters: [{ export: async (batch) => void spans.push(...batch) }],
+      });
+      mockGetTools
+        .mockReset()
+        .mockResolvedValue([
+          { name: "search", inputSchema: { type: "object" } },
+        ]);
+    });
+
+    afterEach(() => {
+      tracer.configure({ exporters: [] });
+    });
+
+    it("should trace a tool call and its mcpd calls in one trace", async () => {
+      await callTool("server1__search");
+
+      const request = spans.find((span) => span.name === "tools/call");
+      const upstream = spans.find((span) => span.name === "mcpd callTool");
+      expect(request).toMatchObject({
+        kind: "server",
+        attributes: {
+          "mcp.method.name": "tools/call",
+          "mcpd.server.name": "server1",
+          "mcpd.tool.name": "search",
+          outcome: "ok",
+        },
+      });
+      expect(upstream).toMatchObject({
+        kind: "client",
+        parentSpanId: request?.context.spanId,
+        attributes: {
+          "mcpd.operation": "callTool",
+          "mcpd.server.name": "server1",
+          "mcpd.tool.name": "search",
+          outcome: "ok",
+        },
+      });
+      expect(upstream?.context.traceId).toBe(request?.context.traceId);
+      expect(
+        spans.filter(
+          (span) => span.context.traceId !== request?.context.traceId,
+        ),
+      ).toEqual([]);
+    });
+
+    it("should record the error class of a failed mcpd call", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockCallTool.mockRejectedValue(new ConnectionError("Connection refused"));
+
+      await callTool("server1__search");
+      vi.mocked(console.error).mockRestore();
+
+      expect(spans.find((span) => span.name === "mcpd callTool")).toMatchObject(
+        {
+          attributes: { outcome: "error", "error.type": "ConnectionError" },
+          status: { code: "error", message: "Connection refused" },
+        },
+      );
+    });
+
+    it("should mark tool calls answered with an error result as failed", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockCallTool.mockRejectedValueOnce(
+        new TimeoutError("Timed out", "callTool", 30000),
+      );
+
+      await callTool("server1__search");
+      await callTool("server1__missing");
+      vi.mocked(console.error).mockRestore();
+
+      expect(
+        spans
+          .filter((span) => span.name === "tools/call")
+          .map(({ attributes, status }) => ({
+            outcome: attributes.outcome,
+            errorType: attributes["error.type"],
+            status,
+          })),
+      ).toEqual([
+        {
+          outcome: "error",
+          errorType: "TimeoutError",
+          status: { code: "error", message: "Timed out" },
+        },
+        {
+          outcome: "error",
+          errorType: "ToolNotFoundError",
+          status: {
+            code: "error",
+            message: "Tool 'server1__missing' not found",
+          },
+        },
+      ]);
+    });
+  });
+
+  describe("Cancellation and timeouts", () => {
+    // Stands in for mcpd: hangs until the request is aborted, then fails
+    // the way the mcpd SDK reports aborted requests.
+    const fetch = vi.fn(
+      (_input: string | URL | Request, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) =>
+          init?.signal?.addEventListener("abort", () =>
+            reject(new TimeoutError("Request timed out after 30000ms")),
+          ),
+        ),
+    );
+    const target = { fetch };
+    let restore: () => void;
+
+    beforeEach(() => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      restore = propagateAbortSignal("http://mcpd", undefined, target);
+      mockGetTools
+        .mockReset()
+        .mockResolvedValue([
+          { name: "search", inputSchema: { type: "object" } },
+        ]);
+      mockCallTool.mockImplementation(() =>
+        target.fetch("http://mcpd/api/v1/servers/server1/tools/search"),
+      );
+    });
+
+    afterEach(() => {
+      restore();
+      mockCallTool.mockReset();
+      vi.mocked(console.error).mockRestore();
+    });
+
+    it("should abort calls that exceed their tool's timeout", async () => {
+      const server = createMcpServer({
+        ...config,
+        callTimeoutMs: 60_000,
+        callTimeouts: { server1: 30_000, server1__search: 10 },
+      });
+
+      const result = (await getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: "server1__search", arguments: {} },
+      })) as { content: Array<{ text: string }>; isError: boolean };
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain("execution timed out");
+      expect(fetch.mock.calls[0]?.[1]?.signal?.aborted).toBe(true);
+    });
+
+    it("should match tool timeouts by canonical name", async () => {
+      const server = createMcpServer({
+        ...config,
+        separator: "-",
+        serverAliases: { server1: "s1." },
+        callTimeouts: { server1__search: 10 },
+      });
+
+      const result = (await getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: "s1_search", arguments: {} },
+      })) as { content: Array<{ text: string }>; isError: boolean };
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain("execution timed out");
+    });
+
+    it("should abort the mcpd request when the client cancels", async () => {
+      const cancelled = metrics.toolCalls.get({
+        server: "server1",
+        tool: "search",
+        result: "cancelled",
+      });
+      const client = new Client({ name: "test", version: "1.0.0" });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await createMcpServer({ ...config, watchIntervalMs: 0 }).connect(
+        serverTransport,
+      );
+      await client.connect(clientTransport);
+      const controller = new AbortController();
+
+      const call = client.callTool(
+        { name: "server1__search", arguments: {} },
+        undefined,
+        { signal: controller.signal },
+      );
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+      controller.abort();
+
+      await expect(call).rejects.toThrow();
+      await vi.waitFor(() =>
+        expect(
+          metrics.toolCalls.get({
+            server: "server1",
+            tool: "search",
+            result: "cancelled",
+          }),
+        ).toBe(cancelled + 1),
+      );
+      expect(fetch.mock.calls[0]?.[1]?.signal?.aborted).toBe(true);
+      await client.close();
+    });
+  });
+
+  describe("Progress", () => {
+    async function connect(overrides: Partial<Config> = {}) {
+      const client = new Client({ name: "test", version: "1.0.0" });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await createMcpServer({
+        ...config,
+        watchIntervalMs: 0,
+        ...overrides,
+      }).connect(serverTransport);
+      await client.connect(clientTransport);
+      return client;
+    }
+
+    beforeEach(() => {
+      mockGetTools
+        .mockReset()
+        .mockResolvedValue([
+          { name: "search", inputSchema: { type: "object" } },
+        ]);
+    });
+
+    it("should send heartbeat progress while a tool runs", async () => {
+      const client = await connect({ progressIntervalMs: 10 });
+      const onprogress = vi.fn();
+      let finish!: (value: unknown) => void;
+      mockCallTool.mockReturnValueOnce(
+        new Promise((resolve) => (finish = resolve)),
+      );
+
+      const call = client.callTool(
+        { name: "server1__search", arguments: {} },
+        undefined,
+        { onprogress },
+      );
+      await vi.waitFor(() =>
+        expect(onprogress.mock.calls.length).toBeGreaterThanOrEqual(2),
+      );
+      finish({ result: "success" });
+      await call;
+
+      expect(
+        onprogress.mock.calls.slice(0, 2).map(([params]) => params),
+      ).toEqual([
+        expect.objectContaining({
+          progress: 1,
+          message: expect.stringContaining("Waiting for 'server1__search'"),
+        }),
+        expect.objectContaining({ progress: 2 }),
+      ]);
+      const sent = onprogress.mock.calls.length;
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(onprogress).toHaveBeenCalledTimes(sent);
+      await client.close();
+    });
+
+    it("should not send progress when disabled", async () => {
+      const client = await connect({ progressIntervalMs: 0 });
+      const onprogress = vi.fn();
+      mockCallTool.mockReturnValueOnce(
+        new Promise((resolve) =>
+          setTimeout(() => resolve({ result: "success" }), 30),
+        ),
+      );
+
+      await client.callTool(
+        { name: "server1__search", arguments: {} },
+        undefined,
+        { onprogress },
+      );
+
+      expect(onprogress).not.toHaveBeenCalled();
+      await client.close();
+    });
+  });
+
+  describe("Retries", () => {
+    const retryConfig = () => ({
+      ...config,
+      watchIntervalMs: 0,
+      retryBaseDelayMs: 1,
+      retryMaxDelayMs: 1,
+    });
+
+    function callTool(server: ReturnType<typeof createMcpServer>) {
+      return getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: "server1__search", arguments: {} },
+      }) as Promise<{ content: Array<{ text: string }>; isError?: boolean }>;
+    }
+
+    beforeEach(() => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.mocked(console.error).mockRestore();
+    });
+
+    it("should retry list calls and report the retries", async () => {
+      mockGetTools
+        .mockReset()
+        .mockRejectedValueOnce(new ConnectionError("Connection refused"))
+        .mockResolvedValue([
+          { name: "search", inputSchema: { type: "object" } },
+        ]);
+      mockListServers.mockResolvedValue(["server1"]);
+      const server = createMcpServer(retryConfig());
+
+      const { tools } = (await getHandler(
+        server,
+        "tools/list",
+      )({ method: "tools/list", params: {} })) as {
+        tools: Array<{ name: string }>;
+      };
+      const { contents } = (await getHandler(
+        server,
+        "resources/read",
+      )({
+        method: "resources/read",
+        params: { uri: "mcpd-proxy://diagnostics" },
+      })) as { contents: Array<{ text: string }> };
+
+      expect(tools.map((tool) => tool.name)).toContain("server1__search");
+      expect(JSON.parse(contents[0]!.text).retries).toEqual([
+        expect.objectContaining({
+          operation: "getTools",
+          server: "server1",
+          retries: 1,
+          errorType: "ConnectionError",
+        }),
+      ]);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "mcpd getTools on 'server1' failed, retrying in 1ms (retry 1 of 2)",
+        ),
+      );
+    });
+
+    it("should retry reads and prompt generation", async () => {
+      mockReadResource
+        .mockRejectedValueOnce(new ConnectionError("Connection refused"))
+        .mockResolvedValueOnce([{ uri: "file:///a", text: "a" }]);
+      mockGetPrompts.mockResolvedValue([{ name: "greet" }]);
+      mockGeneratePrompt
+        .mockRejectedValueOnce(new ConnectionError("Connection refused"))
+        .mockResolvedValueOnce({ messages: [] });
+      const server = createMcpServer(retryConfig());
+
+      await getHandler(
+        server,
+        "resources/read",
+      )({
+        method: "resources/read",
+        params: { uri: "mcpd://server1/file:///a" },
+      });
+      await getHandler(
+        server,
+        "prompts/get",
+      )({ method: "prompts/get", params: { name: "server1__greet" } });
+
+      expect(mockReadResource).toHaveBeenCalledTimes(2);
+      expect(mockGeneratePrompt).toHaveBeenCalledTimes(2);
+    });
+
+    it("should only retry tool calls the tool declares safe to repeat", async () => {
+      mockCallTool.mockRejectedValue(new ConnectionError("Connection refused"));
+      mockGetTools
+        .mockReset()
+        .mockResolvedValue([
+          { name: "search", inputSchema: { type: "object" } },
+        ]);
+
+      const result = await callTool(createMcpServer(retryConfig()));
+
+      expect(result.isError).toBe(true);
+      expect(mockCallTool).toHaveBeenCalledTimes(1);
+
+      mockCallTool.mockClear();
+      mockGetTools.mockResolvedValue([
+        {
+          name: "search",
+          inputSchema: { type: "object" },
+          annotations: { readOnlyHint: true },
+        },
+      ]);
+
+      await callTool(createMcpServer(retryConfig()));
+
+      expect(mockCallTool).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("Circuit breaker", () => {
+    const breakerConfig = () => ({
+      ...config,
+      watchIntervalMs: 0,
+      circuitBreakerThreshold: 2,
+    });
+
+    function callTool(server: ReturnType<typeof createMcpServer>) {
+      return getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: "server1__search", arguments: {} },
+      }) as Promise<{ content: Array<{ text: string }>; isError?: boolean }>;
+    }
+
+    function listTools(server: ReturnType<typeof createMcpServer>) {
+      return getHandler(
+        server,
+        "tools/list",
+      )({ method: "tools/list", params: {} }) as Promise<{
+        tools: Array<{ name: string }>;
+      }>;
+    }
+
+    beforeEach(() => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockGetTools
+        .mockReset()
+        .mockResolvedValue([
+          { name: "search", inputSchema: { type: "object" } },
+        ]);
+    });
+
+    afterEach(() => {
+      vi.mocked(console.error).mockRestore();
+    });
+
+    it("should fail fast and hide the server after repeated failures", async () => {
+      mockCallTool.mockRejectedValue(
+        new ServerUnhealthyError("Server is unhealthy", "server1", "timeout"),
+      );
+      const server = createMcpServer(breakerConfig());
+
+      expect((await listTools(server)).tools.map((tool) => tool.name)).toEqual(
+        expect.arrayContaining(["server1__search", "server2__search"]),
+      );
+      await callTool(server);
+      await callTool(server);
+      mockCallTool.mockClear();
+
+      const result = await callTool(server);
+      const { tools } = await listTools(server);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]!.text).toBe(
+        "Tool 'server1__search' is temporarily unavailable. Please try again later.",
+      );
+      expect(mockCallTool).not.toHaveBeenCalled();
+      expect(tools.map((tool) => tool.name)).not.toContain("server1__search");
+      expect(tools.map((tool) => tool.name)).toContain("server2__search");
+    });
+
+    it("should still fail fast once the catalog no longer lists the server", async () => {
+      mockCallTool.mockRejectedValue(
+        new TimeoutError("Timed out", "callTool", 30000),
+      );
+      const server = createMcpServer({
+        ...breakerConfig(),
+        catalogTtlMs: { tools: 0 },
+      });
+
+      await callTool(server);
+      await callTool(server);
+      // Reloading the catalog skips the server and drops its tool names.
+      await listTools(server);
+      mockCallTool.mockClear();
+      mockGetTools.mockClear();
+      mockListServers.mockClear();
+
+      const result = await callTool(server);
 
-// Mock only the McpdClient class; real error classes and constants pass through.
-vi.mock("@mozilla-ai/mcpd", async (importOriginal) => ({
-  ...(await importOriginal<typeof import("@mozilla-ai/mcpd")>()),
-  McpdClient: vi.fn(
-    class {
-      listServers = mockListServers;
-      getServerHealth = mockGetServerHealth;
-      generatePrompt = mockGeneratePrompt;
-      servers = new Proxy(
-        {},
+      expect(result.content[0]!.text).toBe(
+        "Tool 'server1__search' is temporarily unavailable. Please try again later.",
+      );
+      expect(mockCallTool).not.toHaveBeenCalled();
+      expect(mockGetTools).not.toHaveBeenCalled();
+      expect(mockListServers).not.toHaveBeenCalled();
+    });
+
+    it("should fail fast for shortened tool names too", async () => {
+      mockGetTools.mockResolvedValue([
+        { name: "search_every_repository", inputSchema: { type: "object" } },
+      ]);
+      mockCallTool.mockRejectedValue(
+        new TimeoutError("Timed out", "callTool", 30000),
+      );
+      const server = createMcpServer({
+        ...breakerConfig(),
+        catalogTtlMs: { tools: 0 },
+        maxToolNameLength: 20,
+      });
+      const name = (await listTools(server)).tools
+        .map((tool) => tool.name)
+        .find((tool) => tool.startsWith("server1"))!;
+      const call = () =>
+        getHandler(
+          server,
+          "tools/call",
+        )({
+          method: "tools/call",
+          params: { name, arguments: {} },
+        }) as Promise<{ content: Array<{ text: string }> }>;
+
+      await call();
+      await call();
+      await listTools(server);
+      mockCallTool.mockClear();
+      mockGetTools.mockClear();
+
+      const result = await call();
+
+      expect(name).toHaveLength(20);
+      expect(result.content[0]!.text).toBe(
+        `Tool '${name}' is temporarily unavailable. Please try again later.`,
+      );
+      expect(mockCallTool).not.toHaveBeenCalled();
+      expect(mockGetTools).not.toHaveBeenCalled();
+    });
+
+    it("should report open circuits in the diagnostics resource", async () => {
+      mockCallTool.mockRejectedValue(
+        new ServerUnhealthyError("Server is unhealthy", "server1", "timeout"),
+      );
+      const server = createMcpServer(breakerConfig());
+
+      await callTool(server);
+      await callTool(server);
+      const { contents } = (await getHandler(
+        server,
+        "resources/read",
+      )({
+        method: "resources/read",
+        params: { uri: "mcpd-proxy://diagnostics" },
+      })) as { contents: Array<{ text: string }> };
+
+      expect(JSON.parse(contents[0]!.text).circuits).toEqual([
+        expect.objectContaining({
+          server: "server1",
+          state: "open",
+          failures: 2,
+          errorType: "ServerUnhealthyError",
+        }),
+      ]);
+    });
+  });
+
+  describe("Metrics", () => {
+    const labels = { server: "server1", tool: "search" };
+
+    async function callTool(name: string) {
+      await getHandler(
+        createMcpServer(config),
+        "tools/call",
+      )({ method: "tools/call", params: { name, arguments: {} } });
+    }
+
+    beforeEach(() => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockGetTools
+        .mockReset()
+        .mockResolvedValue([
+          { name: "search", inputSchema: { type: "object" } },
+        ]);
+    });
+
+    afterEach(() => {
+      vi.mocked(console.error).mockRestore();
+    });
+
+    it("should count tool calls by result", async () => {
+      const ok = metrics.toolCalls.get({ ...labels, result: "ok" });
+      const timeouts = metrics.toolCalls.get({
+        ...labels,
+        result: "TimeoutError",
+      });
+
+      await callTool("server1__search");
+      mockCallTool.mockRejectedValueOnce(
+        new TimeoutError("Timed out", "callTool", 30000),
+      );
+      await callTool("server1__search");
+
+      expect(metrics.toolCalls.get({ ...labels, result: "ok" })).toBe(ok + 1);
+      expect(metrics.toolCalls.get({ ...labels, result: "TimeoutError" })).toBe(
+        timeouts + 1,
+      );
+    });
+
+    it("should count unknown tools without their names", async () => {
+      const notFound = metrics.toolCalls.get({
+        server: "",
+        tool: "",
+        result: "ToolNotFoundError",
+      });
+
+      await callTool("server1__missing");
+
+      expect(
+        metrics.toolCalls.get({
+          server: "",
+          tool: "",
+          result: "ToolNotFoundError",
+        }),
+      ).toBe(notFound + 1);
+    });
+
+    it("should record mcpd calls, fan-out duration and catalog size", async () => {
+      const calls = metrics.mcpdCalls.get({
+        server: "server1",
+        operation: "getTools",
+        result: "ok",
+      });
+
+      await getHandler(
+        createMcpServer(config),
+        "tools/list",
+      )({ method: "tools/list", params: {} });
+
+      expect(
+        metrics.mcpdCalls.get({
+          server: "server1",
+          operation: "getTools",
+          result: "ok",
+        }),
+      ).toBeGreaterThan(calls);
+      const text = metrics.render();
+      expect(text).toContain(
+        'mcpd_proxy_catalog_items{catalog="tools",server="server1"} 1',
+      );
+      expect(text).toMatch(
+        /^mcpd_proxy_aggregation_duration_seconds_count\{catalog="tools"\} [1-9]/m,
+      );
+    });
+  });
+
+  describe("Proxy status", () => {
+    async function connect(server: ReturnType<typeof createMcpServer>) {
+      const client = new Client({ name: "test", version: "1.0.0" });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+      return client;
+    }
+
+    beforeEach(() => {
+      mockListServers.mockResolvedValue(["server1", "hidden"]);
+      mockGetServerHealth.mockResolvedValue({
+        server1: { name: "server1", status: "ok" },
+        hidden: { name: "hidden", status: "ok" },
+      });
+      mockGetTools
+        .mockReset()
+        .mockResolvedValue([{ name: "ping", inputSchema: { type: "object" } }]);
+    });
+
+    it("should return the status from the proxy__status tool", async () => {
+      const client = await connect(
+        createMcpServer({
+          ...config,
+          watchIntervalMs: 0,
+          excludeServers: ["hidden"],
+        }),
+      );
+
+      const result = await client.callTool({ name: "proxy__status" });
+      await client.close();
+
+      expect(result.structuredContent).toMatchObject({
+        mcpd: { address: "http://localhost:8090", reachable: true },
+        servers: [
+          { name: "hidden", health: "ok", exposed: false },
+          { name: "server1", health: "ok", exposed: true, items: { tools: 1 } },
+        ],
+      });
+      expect(result.content).toEqual([
         {
-          get: () => ({
-            callTool: mockCallTool,
-            getTools: mockGetTools,
-            getPrompts: mockGetPrompts,
-            getResources: mockGetResources,
-            getResourceTemplates: mockGetResourceTemplates,
-            readResource: mockReadResource,
-          }),
+          type: "text",
+          text: expect.stringContaining("# mcpd-proxy status"),
         },
+        { type: "text", text: expect.stringContaining('"servers"') },
+      ]);
+      expect(mockCallTool).not.toHaveBeenCalled();
+    });
+
+    it("should serve the status resource as markdown and JSON", async () => {
+      const client = await connect(
+        createMcpServer({ ...config, watchIntervalMs: 0 }),
       );
-    },
-  ),
-}));
 
-describe("Server Request Handlers", () => {
-  let config: Config;
+      const { resources } = await client.listResources();
+      const { contents } = await client.readResource({
+        uri: "mcpd-proxy://status",
+      });
+      await client.close();
 
-  beforeEach(() => {
-    config = {
-      mcpdAddr: "http://localhost:8090",
-      mcpdApiKey: undefined,
-    };
+      expect(resources.map((resource) => resource.uri)).toContain(
+        "mcpd-proxy://status",
+      );
+      expect(contents.map((content) => content.mimeType)).toEqual([
+        "text/markdown",
+        "application/json",
+      ]);
+    });
 
-    // Reset all mocks before each test.
-    vi.clearAllMocks();
+    it("should keep the status tool in the read-only profile", async () => {
+      const server = createMcpServer({ ...config, toolProfile: "read-only" });
 
-    // Set default return values.
-    mockListServers.mockResolvedValue(["server1", "server2"]);
-    mockGetServerHealth.mockResolvedValue({
-      server1: { name: "server1", status: "ok" },
-      server2: { name: "server2", status: "ok" },
+      const result = (await getHandler(
+        server,
+        "tools/list",
+      )({ method: "tools/list", params: {} })) as {
+        tools: Array<{ name: string }>;
+      };
+
+      expect(result.tools.map((tool) => tool.name)).toContain("proxy__status");
+    });
+
+    it("should hide the status tool when excluded", async () => {
+      const server = createMcpServer({
+        ...config,
+        excludeTools: ["proxy__status"],
+      });
+
+      const result = (await getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: "proxy__status", arguments: {} },
+      })) as { isError?: boolean };
+
+      expect(result.isError).toBe(true);
     });
-    mockGetTools.mockResolvedValue([]);
-    mockGetPrompts.mockResolvedValue([]);
-    mockGetResources.mockResolvedValue([]);
-    mockGetResourceTemplates.mockResolvedValue([]);
-    mockCallTool.mockResolvedValue({ result: "success" });
-    mockReadResource.mockResolvedValue([{ uri: "test", text: "content" }]);
   });
 
-  describe("Server Creation", () => {
-    it("should create an MCP server with correct configuration", () => {
+  describe("Catalog caching", () => {
+    function listToolNames(server: ReturnType<typeof createMcpServer>) {
+      return (
+        getHandler(
+          server,
+          "tools/list",
+        )({ method: "tools/list", params: {} }) as Promise<{
+          tools: Array<{ name: string }>;
+        }>
+      ).then((result) => result.tools.map((tool) => tool.name));
+    }
+
+    beforeEach(() => {
+      mockListServers.mockResolvedValue(["server1"]);
+      mockGetServerHealth.mockResolvedValue({
+        server1: { name: "server1", status: "ok" },
+      });
+      // Reset drops queued once-values left by earlier tests.
+      mockGetTools
+        .mockReset()
+        .mockResolvedValue([{ name: "one", inputSchema: { type: "object" } }]);
+    });
+
+    it("should serve repeated lists from the cache", async () => {
       const server = createMcpServer(config);
-      expect(server).toBeDefined();
+
+      await listToolNames(server);
+      await listToolNames(server);
+
+      expect(mockGetTools).toHaveBeenCalledTimes(1);
+    });
+
+    it("should share catalogs between servers", async () => {
+      const mcpdClient = createMcpdClient(config);
+      const catalogs = createCatalogs(config, mcpdClient);
+
+      await listToolNames(createMcpServer(config, mcpdClient, catalogs));
+      await listToolNames(createMcpServer(config, mcpdClient, catalogs));
+
+      expect(mockGetTools).toHaveBeenCalledTimes(1);
+      expect(catalogs.tools.metrics).toMatchObject({ hits: 1, misses: 1 });
+    });
+
+    it("should report servers that miss their deadline in _meta", async () => {
+      const consoleError = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      mockGetTools.mockReturnValue(new Promise(() => {}));
+      const server = createMcpServer({ ...config, serverTimeoutMs: 10 });
+
+      const result = (await getHandler(
+        server,
+        "tools/list",
+      )({ method: "tools/list", params: {} })) as {
+        tools: Array<{ name: string }>;
+        _meta?: Record<string, unknown>;
+      };
+
+      expect(result.tools.map((tool) => tool.name)).toEqual(["proxy__status"]);
+      expect(result._meta).toEqual({
+        "mcpd-proxy/skippedServers": [
+          {
+            server: "server1",
+            reason: "timeout",
+            errorType: "DeadlineExceededError",
+            message: "Server 'server1' did not answer within 10ms",
+            stale: false,
+            catalog: "tools",
+            since: expect.any(String),
+          },
+        ],
+      });
+      expect(consoleError).toHaveBeenCalledWith(
+        expect.stringContaining("Skipped server 'server1' while listing tools"),
+      );
+      consoleError.mockRestore();
+    });
+
+    function callTool(
+      server: ReturnType<typeof createMcpServer>,
+      name: string,
+    ) {
+      return getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name, arguments: {} },
+      }) as Promise<{ isError?: boolean }>;
+    }
+
+    it("should reload an expired catalog when a called tool is not in it", async () => {
+      const server = createMcpServer({ ...config, catalogTtlMs: { tools: 5 } });
+      await listToolNames(server);
+      mockGetTools.mockResolvedValue([
+        { name: "one", inputSchema: { type: "object" } },
+        { name: "two", inputSchema: { type: "object" } },
+      ]);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      await callTool(server, "server1__two");
+
+      expect(mockCallTool).toHaveBeenCalledWith("two", {});
+    });
+
+    it("should not reload a fresh catalog for unknown tools", async () => {
+      const server = createMcpServer(config);
+      await listToolNames(server);
+      mockGetTools.mockClear();
+
+      const results = await Promise.all([
+        callTool(server, "server1__missing"),
+        callTool(server, "nope"),
+      ]);
+
+      expect(results.map((result) => result.isError)).toEqual([true, true]);
+      expect(mockGetTools).not.toHaveBeenCalled();
+    });
+
+    it("should drop the catalog when mcpd no longer knows a listed tool", async () => {
+      const server = createMcpServer(config);
+      await listToolNames(server);
+      mockCallTool.mockRejectedValueOnce(
+        new ToolNotFoundError("Tool 'one' not found", "server1", "one"),
+      );
+      mockGetTools.mockResolvedValue([]);
+
+      await callTool(server, "server1__one");
+
+      expect(await listToolNames(server)).toEqual(["proxy__status"]);
+    });
+
+    it("should count cache requests and loads in the metrics", async () => {
+      const server = createMcpServer(config);
+      const hits = metrics.catalogCacheRequests.get({
+        catalog: "tools",
+        result: "hit",
+      });
+      const loads = metrics.catalogCacheRefreshes.get({
+        catalog: "tools",
+        result: "ok",
+      });
+
+      await listToolNames(server);
+      await listToolNames(server);
+
+      expect(
+        metrics.catalogCacheRequests.get({ catalog: "tools", result: "hit" }),
+      ).toBe(hits + 1);
+      expect(
+        metrics.catalogCacheRefreshes.get({ catalog: "tools", result: "ok" }),
+      ).toBe(loads + 1);
+      expect(metrics.render()).toMatch(
+        /^mcpd_proxy_catalog_cache_loaded_timestamp_seconds\{catalog="tools"\} \d/m,
+      );
+    });
+  });
+
+  describe("Resource subscriptions", () => {
+    async function connect(server: ReturnType<typeof createMcpServer>) {
+      const client = new Client({ name: "test", version: "1.0.0" });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+      return client;
+    }
+
+    it("should advertise subscribe unless polling is disabled", async () => {
+      const enabled = await connect(createMcpServer(config));
+      const disabled = await connect(
+        createMcpServer({ ...config, subscriptionIntervalMs: 0 }),
+      );
+
+      expect(enabled.getServerCapabilities()?.resources?.subscribe).toBe(true);
+      expect(disabled.getServerCapabilities()?.resources?.subscribe).toBe(
+        false,
+      );
+      await enabled.close();
+      await disabled.close();
+    });
+
+    it("should notify subscribers when resource contents change", async () => {
+      mockReadResource
+        .mockReset()
+        .mockResolvedValue([{ uri: "file:///notes.txt", text: "v1" }]);
+      const client = await connect(
+        createMcpServer({
+          ...config,
+          watchIntervalMs: 0,
+          subscriptionIntervalMs: 10,
+        }),
+      );
+      const updated = new Promise<string>((resolve) =>
+        client.setNotificationHandler(
+          ResourceUpdatedNotificationSchema,
+          (notification) => resolve(notification.params.uri),
+        ),
+      );
+
+      await client.subscribeResource({ uri: "mcpd://server1/notes.txt" });
+      expect(mockReadResource).toHaveBeenCalledWith("notes.txt");
+      mockReadResource.mockResolvedValue([
+        { uri: "file:///notes.txt", text: "v2" },
+      ]);
+
+      expect(await updated).toBe("mcpd://server1/notes.txt");
+      await client.close();
+    });
+
+    it("should stop polling after unsubscribe", async () => {
+      mockReadResource
+        .mockReset()
+        .mockResolvedValue([{ uri: "file:///notes.txt", text: "v1" }]);
+      const client = await connect(
+        createMcpServer({
+          ...config,
+          watchIntervalMs: 0,
+          subscriptionIntervalMs: 10,
+        }),
+      );
+
+      await client.subscribeResource({ uri: "mcpd://server1/notes.txt" });
+      await client.unsubscribeResource({ uri: "mcpd://server1/notes.txt" });
+      const reads = mockReadResource.mock.calls.length;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(mockReadResource).toHaveBeenCalledTimes(reads);
+      await client.close();
+    });
+
+    it.each(["mcpd-proxy://status", "mcpd-proxy://diagnostics"])(
+      "should not notify %s subscribers while nothing changes",
+      async (uri) => {
+        const client = await connect(
+          createMcpServer({
+            ...config,
+            watchIntervalMs: 0,
+            subscriptionIntervalMs: 10,
+          }),
+        );
+        const updated = vi.fn();
+        client.setNotificationHandler(
+          ResourceUpdatedNotificationSchema,
+          updated,
+        );
+
+        await client.subscribeResource({ uri });
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        expect(updated).not.toHaveBeenCalled();
+        await client.close();
+      },
+    );
+
+    it("should reject subscriptions to hidden servers", async () => {
+      const client = await connect(
+        createMcpServer({ ...config, excludeServers: ["server1"] }),
+      );
+
+      await expect(
+        client.subscribeResource({ uri: "mcpd://server1/notes.txt" }),
+      ).rejects.toThrow("Server 'server1' not found");
+      await client.close();
+    });
+
+    it("should reject malformed resource URIs", async () => {
+      const client = await connect(createMcpServer(config));
+
+      await expect(
+        client.subscribeResource({ uri: "file:///notes.txt" }),
+      ).rejects.toThrow("Invalid resource URI format");
+      await client.close();
     });
   });
 
@@ -169,15 +1847,109 @@ describe("Server Request Handlers", () => {
         },
       ]);
 
-      const server = createMcpServer(config);
-      expect(server).toBeDefined();
-    });
+      const server = createMcpServer(config);
+      expect(server).toBeDefined();
+    });
+
+    it("should handle servers with no tools", async () => {
+      mockGetTools.mockResolvedValue([]);
+
+      const server = createMcpServer(config);
+      expect(server).toBeDefined();
+    });
+
+    it("should forward title, outputSchema, annotations and _meta to clients", async () => {
+      mockListServers.mockResolvedValue(["server1"]);
+      mockGetServerHealth.mockResolvedValue({
+        server1: { name: "server1", status: "ok" },
+      });
+      mockGetTools.mockReset().mockResolvedValue([
+        {
+          name: "get_weather",
+          title: "Get Weather",
+          description: "Current weather for a city",
+          inputSchema: {
+            type: "object",
+            properties: { city: { type: "string" } },
+            required: ["city"],
+          },
+          outputSchema: {
+            type: "object",
+            properties: { temp: { type: "number" } },
+          },
+          annotations: {
+            title: "Weather",
+            readOnlyHint: true,
+            destructiveHint: false,
+            idempotentHint: true,
+            openWorldHint: true,
+          },
+          _meta: { "example.com/version": "2" },
+        },
+      ]);
+
+      const server = createMcpServer({ ...config, watchIntervalMs: 0 });
+      const client = new Client({ name: "test", version: "1.0.0" });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      const { tools } = await client.listTools();
+      await client.close();
+
+      expect(tools).toEqual([
+        STATUS_TOOL,
+        {
+          name: "server1__get_weather",
+          title: "Get Weather",
+          description: "Current weather for a city",
+          inputSchema: {
+            type: "object",
+            properties: { city: { type: "string" } },
+            required: ["city"],
+          },
+          outputSchema: {
+            type: "object",
+            properties: { temp: { type: "number" } },
+          },
+          annotations: {
+            title: "Weather",
+            readOnlyHint: true,
+            destructiveHint: false,
+            idempotentHint: true,
+            openWorldHint: true,
+          },
+          _meta: { "example.com/version": "2" },
+        },
+      ]);
+    });
+
+    it("should omit optional fields the upstream tool does not declare", async () => {
+      mockListServers.mockResolvedValue(["server1"]);
+      mockGetServerHealth.mockResolvedValue({
+        server1: { name: "server1", status: "ok" },
+      });
+      mockGetTools
+        .mockReset()
+        .mockResolvedValue([{ name: "ping", inputSchema: { type: "object" } }]);
+
+      const server = createMcpServer({ ...config, watchIntervalMs: 0 });
+      const client = new Client({ name: "test", version: "1.0.0" });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
 
-    it("should handle servers with no tools", async () => {
-      mockGetTools.mockResolvedValue([]);
+      const { tools } = await client.listTools();
+      await client.close();
 
-      const server = createMcpServer(config);
-      expect(server).toBeDefined();
+      const ping = tools.find((tool) => tool.name === "server1__ping");
+      expect(Object.keys(ping ?? {}).sort()).toEqual([
+        "description",
+        "inputSchema",
+        "name",
+      ]);
     });
   });
 
@@ -263,6 +2035,104 @@ describe("Server Request Handlers", () => {
     });
   });
 
+  describe("Resource template URIs", () => {
+    async function connect() {
+      const client = new Client({ name: "test", version: "1.0.0" });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await createMcpServer({ ...config, watchIntervalMs: 0 }).connect(
+        serverTransport,
+      );
+      await client.connect(clientTransport);
+      return client;
+    }
+
+    async function expandListedTemplate(
+      client: Client,
+      name: string,
+      variables: Record<string, string>,
+    ) {
+      const { resourceTemplates } = await client.listResourceTemplates();
+      const template = resourceTemplates.find((t) => t.name === name)!;
+      return new UriTemplate(template.uriTemplate).expand(variables);
+    }
+
+    beforeEach(() => {
+      mockListServers.mockResolvedValue(["files"]);
+      mockGetServerHealth.mockResolvedValue({
+        files: { name: "files", status: "ok" },
+      });
+      // Reset drops queued once-values left by earlier tests.
+      mockGetResourceTemplates.mockReset().mockResolvedValue([
+        { uriTemplate: "file:///{+path}", name: "file" },
+        { uriTemplate: "postgres://db/{table}{?limit,offset}", name: "rows" },
+      ]);
+      mockReadResource
+        .mockReset()
+        .mockResolvedValue([{ uri: "upstream", text: "content" }]);
+    });
+
+    it("should expose templates under the mcpd://server/ prefix", async () => {
+      const client = await connect();
+
+      const { resourceTemplates } = await client.listResourceTemplates();
+      await client.close();
+
+      expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+        "mcpd://files/file:///{+path}",
+        "mcpd://files/postgres://db/{table}{?limit,offset}",
+      ]);
+    });
+
+    it("should read URIs expanded from path templates", async () => {
+      const client = await connect();
+      const uri = await expandListedTemplate(client, "files__file", {
+        path: "docs/readme.md",
+      });
+
+      const result = await client.readResource({ uri });
+      await client.close();
+
+      expect(uri).toBe("mcpd://files/file:///docs/readme.md");
+      expect(mockReadResource).toHaveBeenCalledWith("file:///docs/readme.md");
+      expect(result.contents).toEqual([{ uri: "upstream", text: "content" }]);
+    });
+
+    it("should read URIs expanded from query templates", async () => {
+      const client = await connect();
+      const uri = await expandListedTemplate(client, "files__rows", {
+        table: "users",
+        limit: "10",
+        offset: "20",
+      });
+
+      await client.readResource({ uri });
+      await client.close();
+
+      expect(uri).toBe("mcpd://files/postgres://db/users?limit=10&offset=20");
+      expect(mockReadResource).toHaveBeenCalledWith(
+        "postgres://db/users?limit=10&offset=20",
+      );
+    });
+
+    it("should route by template for server names that are not URL hosts", async () => {
+      mockListServers.mockResolvedValue(["my files"]);
+      mockGetServerHealth.mockResolvedValue({
+        "my files": { name: "my files", status: "ok" },
+      });
+      const client = await connect();
+      const uri = await expandListedTemplate(client, "my files__file", {
+        path: "a.txt",
+      });
+
+      await client.readResource({ uri });
+      await client.close();
+
+      expect(uri).toBe("mcpd://my files/file:///a.txt");
+      expect(mockReadResource).toHaveBeenCalledWith("file:///a.txt");
+    });
+  });
+
   describe("ListPromptsRequestSchema handler", () => {
     it("should aggregate prompts from all healthy servers", async () => {
       mockGetPrompts
@@ -307,6 +2177,15 @@ describe("Server Request Handlers", () => {
       return handlers.get("tools/call")!;
     }
 
+    beforeEach(() => {
+      // Tool calls are routed through the name table built from tools/list.
+      mockGetTools
+        .mockReset()
+        .mockResolvedValue([
+          { name: "my_tool", inputSchema: { type: "object", properties: {} } },
+        ]);
+    });
+
     it("should call tool on correct server", async () => {
       mockCallTool.mockResolvedValue({ result: "tool executed" });
 
@@ -394,6 +2273,515 @@ describe("Server Request Handlers", () => {
         isError: true,
       });
     });
+
+    it("should pass through MCP-shaped tool results", async () => {
+      const upstream = {
+        content: [
+          { type: "text", text: "Chart:" },
+          { type: "image", data: "aGVsbG8=", mimeType: "image/png" },
+        ],
+        isError: true,
+      };
+      mockCallTool.mockResolvedValue(upstream);
+
+      const handler = getCallToolHandler(createMcpServer(config));
+      const result = await handler({
+        method: "tools/call",
+        params: { name: "server1__my_tool", arguments: {} },
+      });
+
+      expect(result).toEqual(upstream);
+    });
+
+    it("should return structuredContent for tools with an outputSchema", async () => {
+      mockGetTools.mockResolvedValue([
+        {
+          name: "my_tool",
+          inputSchema: { type: "object", properties: {} },
+          outputSchema: {
+            type: "object",
+            properties: { temp: { type: "number" } },
+          },
+        },
+      ]);
+      mockCallTool.mockResolvedValue({ temp: 21 });
+
+      const handler = getCallToolHandler(createMcpServer(config));
+      const result = await handler({
+        method: "tools/call",
+        params: { name: "server1__my_tool", arguments: {} },
+      });
+
+      expect(result).toEqual({
+        content: [{ type: "text", text: '{\n  "temp": 21\n}' }],
+        structuredContent: { temp: 21 },
+      });
+    });
+
+    it("should take the tool definition from the cached catalog", async () => {
+      mockGetTools.mockResolvedValue([
+        {
+          name: "my_tool",
+          inputSchema: { type: "object", properties: {} },
+          outputSchema: { type: "object" },
+        },
+      ]);
+      mockCallTool.mockResolvedValue({ temp: 21 });
+      const handler = getCallToolHandler(createMcpServer(config));
+      const call = () =>
+        handler({
+          method: "tools/call",
+          params: { name: "server1__my_tool", arguments: {} },
+        });
+
+      await call();
+      const loads = mockGetTools.mock.calls.length;
+      const result = await call();
+
+      expect(mockGetTools).toHaveBeenCalledTimes(loads);
+      expect(result).toHaveProperty("structuredContent", { temp: 21 });
+    });
+
+    it("should serialize non-MCP results as text", async () => {
+      mockCallTool.mockResolvedValue({ result: "tool executed" });
+
+      const handler = getCallToolHandler(createMcpServer(config));
+      const result = await handler({
+        method: "tools/call",
+        params: { name: "server1__my_tool", arguments: {} },
+      });
+
+      expect(result).toEqual({
+        content: [{ type: "text", text: '{\n  "result": "tool executed"\n}' }],
+      });
+    });
+  });
+
+  describe("Server include/exclude filtering", () => {
+    beforeEach(() => {
+      mockListServers.mockResolvedValue(["github", "jira", "postgres"]);
+      mockGetServerHealth.mockResolvedValue({
+        github: { name: "github", status: "ok" },
+        jira: { name: "jira", status: "ok" },
+        postgres: { name: "postgres", status: "ok" },
+      });
+      // Reset drops queued once-values left by earlier tests.
+      mockGetTools
+        .mockReset()
+        .mockResolvedValue([
+          { name: "search", inputSchema: { type: "object", properties: {} } },
+        ]);
+    });
+
+    it("should only list tools from included servers", async () => {
+      const server = createMcpServer({
+        ...config,
+        includeServers: ["github", "jira"],
+      });
+
+      const result = (await getHandler(
+        server,
+        "tools/list",
+      )({
+        method: "tools/list",
+        params: {},
+      })) as { tools: Array<{ name: string }> };
+
+      expect(result.tools.map((tool) => tool.name)).toEqual([
+        "github__search",
+        "jira__search",
+        "proxy__status",
+      ]);
+    });
+
+    it("should hide excluded servers matched by glob", async () => {
+      const server = createMcpServer({ ...config, excludeServers: ["post*"] });
+
+      const result = (await getHandler(
+        server,
+        "tools/list",
+      )({
+        method: "tools/list",
+        params: {},
+      })) as { tools: Array<{ name: string }> };
+
+      expect(result.tools.map((tool) => tool.name)).toEqual([
+        "github__search",
+        "jira__search",
+        "proxy__status",
+      ]);
+    });
+
+    it("should reject tool calls to hidden servers", async () => {
+      const server = createMcpServer({ ...config, includeServers: ["github"] });
+
+      const result = await getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: "postgres__search", arguments: {} },
+      });
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: "text",
+            text: "Tool 'postgres__search' not found. Run the tools/list request to see available tools.",
+          },
+        ],
+        isError: true,
+      });
+      expect(mockCallTool).not.toHaveBeenCalled();
+    });
+
+    it("should reject resource reads from hidden servers", async () => {
+      const server = createMcpServer({
+        ...config,
+        excludeServers: ["postgres"],
+      });
+
+      await expect(
+        getHandler(
+          server,
+          "resources/read",
+        )({
+          method: "resources/read",
+          params: { uri: "mcpd://postgres/table/users" },
+        }),
+      ).rejects.toThrow("Server 'postgres' not found");
+      expect(mockReadResource).not.toHaveBeenCalled();
+    });
+
+    it("should reject prompts from hidden servers", async () => {
+      const server = createMcpServer({
+        ...config,
+        excludeServers: ["postgres"],
+      });
+
+      await expect(
+        getHandler(
+          server,
+          "prompts/get",
+        )({
+          method: "prompts/get",
+          params: { name: "postgres__explain" },
+        }),
+      ).rejects.toThrow("Prompt 'postgres__explain' not found");
+      expect(mockGeneratePrompt).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Tool include/exclude filtering and profiles", () => {
+    async function listToolNames(server: ReturnType<typeof createMcpServer>) {
+      const result = (await getHandler(
+        server,
+        "tools/list",
+      )({
+        method: "tools/list",
+        params: {},
+      })) as { tools: Array<{ name: string }> };
+      return result.tools.map((tool) => tool.name);
+    }
+
+    beforeEach(() => {
+      mockListServers.mockResolvedValue(["github"]);
+      mockGetServerHealth.mockResolvedValue({
+        github: { name: "github", status: "ok" },
+      });
+      // Reset drops queued once-values left by earlier tests.
+      mockGetTools.mockReset().mockResolvedValue([
+        {
+          name: "get_issue",
+          inputSchema: { type: "object" },
+          annotations: { readOnlyHint: true },
+        },
+        {
+          name: "create_issue",
+          inputSchema: { type: "object" },
+          annotations: { destructiveHint: false },
+        },
+        {
+          name: "delete_repository",
+          inputSchema: { type: "object" },
+          annotations: { destructiveHint: true },
+        },
+      ]);
+    });
+
+    it("should hide excluded tools from tools/list", async () => {
+      const server = createMcpServer({
+        ...config,
+        excludeTools: ["github__delete_*"],
+      });
+
+      expect(await listToolNames(server)).toEqual([
+        "github__create_issue",
+        "github__get_issue",
+        "proxy__status",
+      ]);
+    });
+
+    it("should only list included tools", async () => {
+      const server = createMcpServer({
+        ...config,
+        includeTools: ["*__get_*"],
+      });
+
+      expect(await listToolNames(server)).toEqual(["github__get_issue"]);
+    });
+
+    it("should reject calls to excluded tools", async () => {
+      const server = createMcpServer({
+        ...config,
+        excludeTools: ["github__delete_repository"],
+      });
+
+      const result = await getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: "github__delete_repository", arguments: {} },
+      });
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: "text",
+            text: "Tool 'github__delete_repository' is disabled by the proxy configuration.",
+          },
+        ],
+        isError: true,
+      });
+      expect(mockCallTool).not.toHaveBeenCalled();
+    });
+
+    it("should match filters against server__tool whatever the exposed name", async () => {
+      const server = createMcpServer({
+        ...config,
+        serverAliases: { github: "gh." },
+        excludeTools: ["github__delete_*"],
+      });
+
+      const result = await getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: "gh_delete_repository", arguments: {} },
+      });
+
+      expect(await listToolNames(server)).toEqual([
+        "gh_create_issue",
+        "gh_get_issue",
+        "proxy__status",
+      ]);
+      expect(result).toMatchObject({ isError: true });
+      expect(mockCallTool).not.toHaveBeenCalled();
+    });
+
+    it("should drop destructive tools in the read-only profile", async () => {
+      const server = createMcpServer({ ...config, toolProfile: "read-only" });
+
+      expect(await listToolNames(server)).toEqual([
+        "github__create_issue",
+        "github__get_issue",
+        "proxy__status",
+      ]);
+    });
+
+    it("should drop tools without annotations in the read-only profile", async () => {
+      mockGetTools.mockResolvedValue([
+        { name: "get_issue", inputSchema: { type: "object" } },
+        {
+          name: "close_issue",
+          inputSchema: { type: "object" },
+          annotations: { readOnlyHint: false },
+        },
+      ]);
+      const server = createMcpServer({ ...config, toolProfile: "read-only" });
+
+      const result = (await getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: "github__get_issue", arguments: {} },
+      })) as { isError?: boolean };
+
+      expect(await listToolNames(server)).toEqual(["proxy__status"]);
+      expect(result.isError).toBe(true);
+      expect(mockCallTool).not.toHaveBeenCalled();
+    });
+
+    it("should reject destructive tool calls in the read-only profile", async () => {
+      const server = createMcpServer({ ...config, toolProfile: "read-only" });
+
+      const result = (await getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: "github__delete_repository", arguments: {} },
+      })) as { isError?: boolean };
+
+      expect(result.isError).toBe(true);
+      expect(mockCallTool).not.toHaveBeenCalled();
+    });
+
+    it("should allow non-destructive tool calls in the read-only profile", async () => {
+      const server = createMcpServer({ ...config, toolProfile: "read-only" });
+
+      const result = (await getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: "github__get_issue", arguments: {} },
+      })) as { isError?: boolean };
+
+      expect(result.isError).toBeUndefined();
+      expect(mockCallTool).toHaveBeenCalledWith("get_issue", {});
+    });
+  });
+
+  describe("Namespaced naming", () => {
+    beforeEach(() => {
+      mockListServers.mockResolvedValue(["github"]);
+      mockGetServerHealth.mockResolvedValue({
+        github: { name: "github", status: "ok" },
+      });
+      // Reset drops queued once-values left by earlier tests.
+      mockGetTools
+        .mockReset()
+        .mockResolvedValue([
+          { name: "create_issue", inputSchema: { type: "object" } },
+        ]);
+      mockGetPrompts.mockReset().mockResolvedValue([{ name: "triage" }]);
+    });
+
+    it("should expose tools with a configured separator", async () => {
+      const server = createMcpServer({ ...config, separator: "-" });
+
+      const result = (await getHandler(
+        server,
+        "tools/list",
+      )({
+        method: "tools/list",
+        params: {},
+      })) as { tools: Array<{ name: string }> };
+
+      expect(result.tools.map((tool) => tool.name)).toEqual([
+        "github-create_issue",
+        "proxy__status",
+      ]);
+    });
+
+    it("should route aliased tool names by lookup", async () => {
+      const server = createMcpServer({
+        ...config,
+        serverAliases: { github: "gh_" },
+      });
+
+      await getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: "gh_create_issue", arguments: { title: "Bug" } },
+      });
+
+      expect(mockCallTool).toHaveBeenCalledWith("create_issue", {
+        title: "Bug",
+      });
+    });
+
+    it("should route aliased prompt names by lookup", async () => {
+      mockGeneratePrompt.mockResolvedValue({ messages: [] });
+      const server = createMcpServer({
+        ...config,
+        serverAliases: { github: "gh_" },
+      });
+
+      await getHandler(
+        server,
+        "prompts/get",
+      )({
+        method: "prompts/get",
+        params: { name: "gh_triage" },
+      });
+
+      expect(mockGeneratePrompt).toHaveBeenCalledWith("triage", undefined);
+    });
+
+    it("should sanitize tool names and route them back", async () => {
+      const longName = `create_${"x".repeat(80)}`;
+      mockGetTools.mockResolvedValue([
+        { name: "get.issue", inputSchema: { type: "object" } },
+        { name: longName, inputSchema: { type: "object" } },
+      ]);
+      const server = createMcpServer(config);
+
+      const result = (await getHandler(
+        server,
+        "tools/list",
+      )({
+        method: "tools/list",
+        params: {},
+      })) as { tools: Array<{ name: string }> };
+      const names = result.tools.map((tool) => tool.name);
+
+      // Lists are sorted by name, so the truncated tool comes first.
+      expect(names[1]).toBe("github__get_issue");
+      expect(names[0]).toHaveLength(64);
+      expect(names[0]).toMatch(/^[a-zA-Z0-9_-]+$/);
+
+      await getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: names[0], arguments: {} },
+      });
+
+      expect(mockCallTool).toHaveBeenCalledWith(longName, {});
+    });
+
+    it("should leave tool names untouched when sanitization is disabled", async () => {
+      mockGetTools.mockResolvedValue([
+        { name: "get.issue", inputSchema: { type: "object" } },
+      ]);
+      const server = createMcpServer({ ...config, sanitizeToolNames: false });
+
+      const result = (await getHandler(
+        server,
+        "tools/list",
+      )({
+        method: "tools/list",
+        params: {},
+      })) as { tools: Array<{ name: string }> };
+
+      expect(result.tools[0]?.name).toBe("github__get.issue");
+    });
+
+    it("should not route the unaliased name", async () => {
+      const server = createMcpServer({
+        ...config,
+        serverAliases: { github: "gh_" },
+      });
+
+      const result = (await getHandler(
+        server,
+        "tools/call",
+      )({
+        method: "tools/call",
+        params: { name: "github__create_issue", arguments: {} },
+      })) as { isError?: boolean };
+
+      expect(result.isError).toBe(true);
+      expect(mockCallTool).not.toHaveBeenCalled();
+    });
   });
 
   describe("ReadResourceRequestSchema handler", () => {
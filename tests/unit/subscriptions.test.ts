@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { hashContents, ResourceSubscriptions } from "../../src/subscriptions";
+
+const URI = "mcpd://files/notes.txt";
+
+function contents(text: string) {
+  return [{ uri: "file:///notes.txt", text }];
+}
+
+describe("hashContents", () => {
+  it("should be stable for equal contents", () => {
+    expect(hashContents(contents("a"))).toBe(hashContents(contents("a")));
+  });
+
+  it("should differ for different contents", () => {
+    expect(hashContents(contents("a"))).not.toBe(hashContents(contents("b")));
+  });
+});
+
+describe("ResourceSubscriptions", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should record a baseline on subscribe without notifying", async () => {
+    const read = vi.fn().mockResolvedValue(contents("a"));
+    const onUpdated = vi.fn();
+    const subscriptions = new ResourceSubscriptions({
+      intervalMs: 1000,
+      read,
+      onUpdated,
+    });
+
+    await subscriptions.subscribe(URI);
+
+    expect(read).toHaveBeenCalledWith(URI);
+    expect(subscriptions.uris).toEqual([URI]);
+    expect(onUpdated).not.toHaveBeenCalled();
+    subscriptions.stop();
+  });
+
+  it("should notify only when contents change", async () => {
+    const read = vi
+      .fn()
+      .mockResolvedValueOnce(contents("a"))
+      .mockResolvedValueOnce(contents("a"))
+      .mockResolvedValueOnce(contents("b"));
+    const onUpdated = vi.fn();
+    const subscriptions = new ResourceSubscriptions({
+      intervalMs: 1000,
+      read,
+      onUpdated,
+    });
+
+    await subscriptions.subscribe(URI);
+    expect(await subscriptions.poll()).toEqual([]);
+    expect(await subscriptions.poll()).toEqual([URI]);
+
+    expect(onUpdated).toHaveBeenCalledTimes(1);
+    expect(onUpdated).toHaveBeenCalledWith(URI);
+    subscriptions.stop();
+  });
+
+  it("should keep the baseline when a read fails", async () => {
+    const read = vi
+      .fn()
+      .mockResolvedValueOnce(contents("a"))
+      .mockRejectedValueOnce(new Error("server unhealthy"))
+      .mockResolvedValueOnce(contents("a"));
+    const onUpdated = vi.fn();
+    const subscriptions = new ResourceSubscriptions({
+      intervalMs: 1000,
+      read,
+      onUpdated,
+    });
+
+    await subscriptions.subscribe(URI);
+    await subscriptions.poll();
+    await subscriptions.poll();
+
+    expect(onUpdated).not.toHaveBeenCalled();
+    subscriptions.stop();
+  });
+
+  it("should ignore duplicate subscriptions", async () => {
+    const read = vi.fn().mockResolvedValue(contents("a"));
+    const subscriptions = new ResourceSubscriptions({
+      intervalMs: 1000,
+      read,
+      onUpdated: vi.fn(),
+    });
+
+    await subscriptions.subscribe(URI);
+    await subscriptions.subscribe(URI);
+
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(subscriptions.uris).toEqual([URI]);
+    subscriptions.stop();
+  });
+
+  it("should stop notifying after unsubscribe", async () => {
+    const read = vi
+      .fn()
+      .mockResolvedValueOnce(contents("a"))
+      .mockResolvedValueOnce(contents("b"));
+    const onUpdated = vi.fn();
+    const subscriptions = new ResourceSubscriptions({
+      intervalMs: 1000,
+      read,
+      onUpdated,
+    });
+
+    await subscriptions.subscribe(URI);
+    subscriptions.unsubscribe(URI);
+
+    expect(await subscriptions.poll()).toEqual([]);
+    expect(subscriptions.uris).toEqual([]);
+    expect(onUpdated).not.toHaveBeenCalled();
+  });
+
+  it("should poll on the interval while subscribed", async () => {
+    vi.useFakeTimers();
+    const read = vi
+      .fn()
+      .mockResolvedValueOnce(contents("a"))
+      .mockResolvedValueOnce(contents("a"))
+      .mockResolvedValue(contents("b"));
+    const onUpdated = vi.fn();
+    const subscriptions = new ResourceSubscriptions({
+      intervalMs: 1000,
+      read,
+      onUpdated,
+    });
+
+    await subscriptions.subscribe(URI);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onUpdated).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onUpdated).toHaveBeenCalledWith(URI);
+
+    subscriptions.unsubscribe(URI);
+    const reads = read.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(read).toHaveBeenCalledTimes(reads);
+  });
+});
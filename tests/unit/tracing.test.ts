@@ -0,0 +1,318 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createSpanExporters,
+  formatTraceparent,
+  JsonFileExporter,
+  OtlpHttpExporter,
+  parseTraceparent,
+  propagateTraceContext,
+  toOtlpJson,
+  Tracer,
+  type SpanData,
+} from "../../src/tracing";
+import { propagateAbortSignal } from "../../src/cancellation";
+
+function createTracer(options: { batchSize?: number } = {}) {
+  const spans: SpanData[] = [];
+  const tracer = new Tracer({
+    exporters: [{ export: async (batch) => void spans.push(...batch) }],
+    now: () => 1_700_000_000_000,
+    ...options,
+  });
+  return { tracer, spans };
+}
+
+const span: SpanData = {
+  context: { traceId: "a".repeat(32), spanId: "b".repeat(16) },
+  parentSpanId: "c".repeat(16),
+  name: "mcpd callTool",
+  kind: "client",
+  startTime: 1_700_000_000_000,
+  endTime: 1_700_000_000_012.5,
+  attributes: { "mcpd.server.name": "github", retries: 0, cached: false },
+  status: { code: "error", message: "Connection refused" },
+};
+
+describe("Tracer", () => {
+  it("should record nested spans in one trace", async () => {
+    const { tracer, spans } = createTracer();
+
+    const result = await tracer.withSpan(
+      "tools/call",
+      { kind: "server" },
+      async () =>
+        tracer.withSpan(
+          "mcpd callTool",
+          { kind: "client", attributes: { "mcpd.server.name": "github" } },
+          async () => "done",
+        ),
+    );
+    await tracer.flush();
+
+    expect(result).toBe("done");
+    const [child, parent] = spans;
+    expect(child).toMatchObject({
+      name: "mcpd callTool",
+      kind: "client",
+      parentSpanId: parent?.context.spanId,
+      attributes: { "mcpd.server.name": "github", outcome: "ok" },
+      status: { code: "ok" },
+    });
+    expect(child?.context.traceId).toBe(parent?.context.traceId);
+    expect(parent).not.toHaveProperty("parentSpanId");
+  });
+
+  it("should record the error class of failed spans", async () => {
+    const { tracer, spans } = createTracer();
+    class ConnectionError extends Error {
+      name = "ConnectionError";
+    }
+
+    await expect(
+      tracer.withSpan("mcpd getTools", {}, async () => {
+        throw new ConnectionError("Connection refused");
+      }),
+    ).rejects.toThrow("Connection refused");
+    await tracer.flush();
+
+    expect(spans[0]).toMatchObject({
+      attributes: { outcome: "error", "error.type": "ConnectionError" },
+      status: { code: "error", message: "Connection refused" },
+    });
+  });
+
+  it("should keep a span the work marked as failed", async () => {
+    const { tracer, spans } = createTracer();
+
+    await tracer.withSpan("tools/call", {}, async (span) => {
+      span?.fail("tool_error");
+    });
+    await tracer.flush();
+
+    expect(spans[0]).toMatchObject({
+      attributes: { outcome: "error", "error.type": "tool_error" },
+      status: { code: "error" },
+    });
+  });
+
+  it("should continue a remote parent when no span is active", async () => {
+    const { tracer, spans } = createTracer();
+    const parent = { traceId: "1".repeat(32), spanId: "2".repeat(16) };
+
+    await tracer.withSpan("ping", { parent }, async () => undefined);
+    await tracer.flush();
+
+    expect(spans[0]?.context.traceId).toBe(parent.traceId);
+    expect(spans[0]?.parentSpanId).toBe(parent.spanId);
+  });
+
+  it("should expose the active span to the traced work", async () => {
+    const { tracer, spans } = createTracer();
+
+    await tracer.withSpan("tools/call", {}, async () => {
+      tracer.activeSpan()?.setAttributes({ "mcpd.tool.name": "search" });
+    });
+    await tracer.flush();
+
+    expect(tracer.activeSpan()).toBeUndefined();
+    expect(spans[0]?.attributes["mcpd.tool.name"]).toBe("search");
+  });
+
+  it("should export once a batch is full", async () => {
+    const { tracer, spans } = createTracer({ batchSize: 2 });
+
+    await tracer.withSpan("first", {}, async () => undefined);
+    expect(spans).toEqual([]);
+    await tracer.withSpan("second", {}, async () => undefined);
+    await vi.waitFor(() => expect(spans).toHaveLength(2));
+  });
+
+  it("should only run the work when no exporter is configured", async () => {
+    const tracer = new Tracer();
+    const fn = vi.fn(async () => "done");
+
+    expect(tracer.enabled).toBe(false);
+    expect(await tracer.withSpan("ping", {}, fn)).toBe("done");
+    expect(fn).toHaveBeenCalledWith();
+  });
+});
+
+describe("traceparent", () => {
+  it("should format and parse W3C trace context", () => {
+    const context = { traceId: "a".repeat(32), spanId: "b".repeat(16) };
+
+    const header = formatTraceparent(context);
+
+    expect(header).toBe(`00-${"a".repeat(32)}-${"b".repeat(16)}-01`);
+    expect(parseTraceparent(header)).toEqual(context);
+  });
+
+  it("should reject malformed and all-zero values", () => {
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent("00-abc-def-01")).toBeUndefined();
+    expect(
+      parseTraceparent(`00-${"0".repeat(32)}-${"b".repeat(16)}-01`),
+    ).toBeUndefined();
+  });
+});
+
+describe("propagateTraceContext", () => {
+  it("should add traceparent to requests for the base URL only", async () => {
+    const fetch = vi.fn(
+      async (_input: string | URL | Request, _init?: RequestInit) =>
+        new Response("{}"),
+    );
+    const target = { fetch };
+    const { tracer } = createTracer();
+    const restore = propagateTraceContext(
+      "http://localhost:8090",
+      () => tracer.activeSpan(),
+      target,
+    );
+
+    let traceparent = "";
+    await tracer.withSpan("mcpd listServers", {}, async (span) => {
+      traceparent = formatTraceparent(span!.context);
+      await target.fetch("http://localhost:8090/api/v1/servers", {
+        headers: { "Content-Type": "application/json" },
+      });
+      await target.fetch("http://collector:4318/v1/traces");
+    });
+    await target.fetch("http://localhost:8090/api/v1/servers");
+    restore();
+
+    const headers = (call: number) =>
+      new Headers(fetch.mock.calls[call]?.[1]?.headers);
+    expect(headers(0).get("traceparent")).toBe(traceparent);
+    expect(headers(0).get("content-type")).toBe("application/json");
+    expect(headers(1).get("traceparent")).toBeNull();
+    expect(headers(2).get("traceparent")).toBeNull();
+    expect(target.fetch).toBe(fetch);
+  });
+});
+
+describe("fetch hooks", () => {
+  it("should share one fetch wrapper with cancellation", () => {
+    const fetch = vi.fn(async () => new Response("{}"));
+    const target = { fetch };
+    const { tracer } = createTracer();
+
+    const stopTracing = propagateTraceContext(
+      "http://mcpd",
+      () => tracer.activeSpan(),
+      target,
+    );
+    const wrapped = target.fetch;
+    const stopCancelling = propagateAbortSignal(
+      "http://mcpd",
+      undefined,
+      target,
+    );
+
+    expect(target.fetch).toBe(wrapped);
+    stopCancelling();
+    stopTracing();
+    expect(target.fetch).toBe(fetch);
+  });
+});
+
+describe("toOtlpJson", () => {
+  it("should render spans as an OTLP/JSON export request", () => {
+    const request = toOtlpJson([span], "1.2.3");
+
+    const resource = request.resourceSpans[0]!;
+    expect(resource.resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "mcpd-proxy" } },
+      { key: "service.version", value: { stringValue: "1.2.3" } },
+    ]);
+    expect(resource.scopeSpans[0]?.spans).toEqual([
+      {
+        traceId: "a".repeat(32),
+        spanId: "b".repeat(16),
+        parentSpanId: "c".repeat(16),
+        name: "mcpd callTool",
+        kind: 3,
+        startTimeUnixNano: "1700000000000000000",
+        endTimeUnixNano: "1700000000012500000",
+        attributes: [
+          { key: "mcpd.server.name", value: { stringValue: "github" } },
+          { key: "retries", value: { intValue: "0" } },
+          { key: "cached", value: { boolValue: false } },
+        ],
+        status: { code: 2, message: "Connection refused" },
+      },
+    ]);
+  });
+});
+
+describe("exporters", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it("should append one OTLP/JSON line per batch to the trace file", async () => {
+    dir = mkdtempSync(join(tmpdir(), "mcpd-proxy-"));
+    const path = join(dir, "traces.jsonl");
+    const exporter = new JsonFileExporter(path, "1.2.3");
+
+    await exporter.export([span]);
+    await exporter.export([span]);
+
+    const lines = readFileSync(path, "utf8").trimEnd().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0]!)).toEqual(toOtlpJson([span], "1.2.3"));
+  });
+
+  it("should post spans to the OTLP endpoint", async () => {
+    const fetch = vi.fn(async () => new Response("{}"));
+    vi.stubGlobal("fetch", fetch);
+    const exporter = new OtlpHttpExporter(
+      "http://localhost:4318/v1/traces",
+      "1.2.3",
+    );
+
+    await exporter.export([span]);
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://localhost:4318/v1/traces");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body as string)).toEqual(
+      toOtlpJson([span], "1.2.3"),
+    );
+  });
+
+  it("should fail when the OTLP endpoint rejects spans", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("", { status: 503 })),
+    );
+    const exporter = new OtlpHttpExporter(
+      "http://localhost:4318/v1/traces",
+      "1.2.3",
+    );
+
+    await expect(exporter.export([span])).rejects.toThrow("503");
+  });
+
+  it("should create the configured exporters", () => {
+    expect(createSpanExporters({}, "1.2.3")).toEqual([]);
+    expect(
+      createSpanExporters(
+        {
+          otlpEndpoint: "http://localhost:4318/v1/traces",
+          traceFile: "traces.jsonl",
+        },
+        "1.2.3",
+      ).map((exporter) => exporter.constructor),
+    ).toEqual([OtlpHttpExporter, JsonFileExporter]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { CatalogWatcher, type CatalogSnapshot } from "../../src/watcher";
+
+describe("CatalogWatcher", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function snapshot(overrides: Partial<CatalogSnapshot> = {}): CatalogSnapshot {
+    return { tools: [], prompts: [], resources: [], ...overrides };
+  }
+
+  it("should record a baseline without notifying", async () => {
+    const onChange = vi.fn();
+    const watcher = new CatalogWatcher({
+      intervalMs: 1000,
+      snapshot: vi.fn().mockResolvedValue(snapshot()),
+      onChange,
+    });
+
+    expect(await watcher.poll()).toEqual([]);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should notify only the kinds that changed", async () => {
+    const onChange = vi.fn();
+    const watcher = new CatalogWatcher({
+      intervalMs: 1000,
+      snapshot: vi
+        .fn()
+        .mockResolvedValueOnce(snapshot())
+        .mockResolvedValueOnce(snapshot({ tools: [{ name: "a__t" }] })),
+      onChange,
+    });
+
+    await watcher.poll();
+    const changed = await watcher.poll();
+
+    expect(changed).toEqual(["tools"]);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith("tools");
+  });
+
+  it("should not notify when nothing changed", async () => {
+    const onChange = vi.fn();
+    const watcher = new CatalogWatcher({
+      intervalMs: 1000,
+      snapshot: vi
+        .fn()
+        .mockImplementation(async () =>
+          snapshot({ prompts: [{ name: "a__p" }] }),
+        ),
+      onChange,
+    });
+
+    await watcher.poll();
+    await watcher.poll();
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should keep polling on the interval and skip failed polls", async () => {
+    vi.useFakeTimers();
+    const onChange = vi.fn();
+    const take = vi
+      .fn()
+      .mockResolvedValueOnce(snapshot())
+      .mockRejectedValueOnce(new Error("mcpd down"))
+      .mockResolvedValue(snapshot({ resources: [{ uri: "mcpd://a/x" }] }));
+    const watcher = new CatalogWatcher({
+      intervalMs: 1000,
+      snapshot: take,
+      onChange,
+    });
+
+    watcher.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onChange).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onChange).toHaveBeenCalledWith("resources");
+    expect(take).toHaveBeenCalledTimes(3);
+
+    watcher.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(take).toHaveBeenCalledTimes(3);
+  });
+
+  it("should run one poll loop when restarted during a poll", async () => {
+    vi.useFakeTimers();
+    let finish: (value: CatalogSnapshot) => void = () => {};
+    const take = vi
+      .fn()
+      .mockImplementationOnce(
+        () => new Promise<CatalogSnapshot>((resolve) => (finish = resolve)),
+      )
+      .mockResolvedValue(snapshot());
+    const watcher = new CatalogWatcher({
+      intervalMs: 1000,
+      snapshot: take,
+      onChange: vi.fn(),
+    });
+
+    watcher.start();
+    watcher.stop();
+    watcher.start();
+    finish(snapshot());
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(take).toHaveBeenCalledTimes(3);
+    watcher.stop();
+  });
+});
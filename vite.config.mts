@@ -15,6 +15,7 @@ export default defineConfig({
       external: [
         "@modelcontextprotocol/sdk",
         "@mozilla-ai/mcpd",
+        "smol-toml",
         /^node:/,
       ],
     },